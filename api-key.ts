@@ -0,0 +1,263 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as fs from 'fs';
+import * as util from 'util';
+import {RateLimit, RateLimiter} from './rate-limiter';
+import {Regions} from './regions';
+
+/**
+ * An error that happens when a key is missing, malformed or can't be read.
+ *
+ * Its message never contains the value of the key.
+ */
+export class InvalidKeyError implements Error {
+    public name:string = "InvalidKeyError";
+
+    constructor(public message:string) {
+    }
+}
+
+/**
+ * Gives the current value of a key, to rotate it without restarting
+ */
+export type KeyProvider = () => string;
+
+/**
+ * Options of an ApiKey
+ */
+export interface ApiKeyOptions {
+    /**
+     * Region the key is restricted to. It is used for every region if omitted.
+     */
+    region?:string;
+    /**
+     * Rate limits of the key, instead of the ones of the LeagueTypenode instance
+     */
+    rateLimits?:RateLimit[];
+}
+
+/**
+ * A key used to access the API
+ *
+ * Its value never appears in its `toString()`, in its JSON or when it's logged.
+ */
+export class ApiKey {
+    /**
+     * Format of the keys given by Riot Games
+     */
+    public static FORMAT:RegExp = /^(RGAPI-)?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+    /**
+     * Region the key is restricted to, if any
+     */
+    public region:string;
+    /**
+     * Rate limits of the key, if declared
+     */
+    public rateLimits:RateLimit[];
+    /**
+     * Gives the value of the key. Not enumerable, so that it isn't logged.
+     */
+    private provider:KeyProvider;
+
+    /**
+     * Creates an ApiKey instance from its value.
+     *
+     * @param value Actual string of the key, or a function giving it each time it's used
+     * @param tournaments Whether or not the key is valid for the tournaments endpoints
+     * @param options Region and rate limits of the key
+     * @throws {InvalidKeyError} If the value isn't a valid key. The values given by a function are checked when used.
+     */
+    constructor(value:string|KeyProvider, public tournaments:boolean = false, options:ApiKeyOptions = {}) {
+        var provider:KeyProvider;
+        if (typeof value === "function") {
+            provider = value;
+        } else {
+            ApiKey.check(value, "The key");
+            var trimmed = (<string>value).trim();
+            provider = () => trimmed;
+        }
+        Object.defineProperty(this, "provider", {value: provider, enumerable: false});
+        this.region = options.region != null ? Regions.parseRegion(options.region) : null;
+        this.rateLimits = options.rateLimits || null;
+    }
+
+    /**
+     * Current value of the key
+     *
+     * @throws {InvalidKeyError} If the provider of the key fails or gives an invalid key
+     */
+    public get value():string {
+        var value:string;
+        try {
+            value = this.provider();
+        } catch (e) {
+            throw e instanceof InvalidKeyError ? e : new InvalidKeyError(`The key couldn't be read : ${e.message}`);
+        }
+        ApiKey.check(value, "The key given by the provider");
+        return value.trim();
+    }
+
+    /**
+     * Whether the key can be used for a region.
+     *
+     * @param region Region of a request, or "global"
+     * @returns {boolean}
+     */
+    public serves(region:string):boolean {
+        return this.region == null || region == null || region == "global" || region == this.region;
+    }
+
+    /**
+     * Describes the key without its value.
+     *
+     * @returns {string}
+     */
+    public toString():string {
+        return `ApiKey(REDACTED${this.tournaments ? ", tournaments" : ""}${this.region ? `, ${this.region}` : ""})`;
+    }
+
+    /**
+     * Gives the JSON of the key, without its value.
+     */
+    public toJSON():Object {
+        return {value: "REDACTED", tournaments: this.tournaments, region: this.region, rateLimits: this.rateLimits};
+    }
+
+    /**
+     * Creates an ApiKey instance from a json file.
+     *
+     * The file contains an object with the `value` of the key, and optionally whether it is valid for the
+     * `tournaments` endpoints, the `server` (region) it is restricted to, and its `rateLimits`, either as a list of
+     * limits or as in the rate limit headers ("10:10,500:600").
+     *
+     * @param fileName Name of the file containing the key
+     * @param reload Whether the value of the key is read again when the file changes, to rotate it without restarting
+     * @returns {ApiKey}
+     * @throws {InvalidKeyError} If the file doesn't contain a single valid key
+     */
+    public static fromFile(fileName:string, reload:boolean = false):ApiKey {
+        var keys = ApiKey.allFromFile(fileName);
+        if (keys.length != 1) {
+            throw new InvalidKeyError(`${fileName} contains ${keys.length} keys. Use ApiKey.allFromFile() to read them all.`);
+        }
+        if (!reload) {
+            return keys[0];
+        }
+        var value = keys[0].value;
+        var modified = fs.statSync(fileName).mtime.getTime();
+        var checked = Date.now();
+        // The file is checked at most once per second
+        return new ApiKey(() => {
+            if (Date.now() - checked >= 1000) {
+                checked = Date.now();
+                var lastModified = fs.statSync(fileName).mtime.getTime();
+                if (lastModified != modified) {
+                    value = ApiKey.fromFile(fileName).value;
+                    modified = lastModified;
+                }
+            }
+            return value;
+        }, keys[0].tournaments, {region: keys[0].region, rateLimits: keys[0].rateLimits});
+    }
+
+    /**
+     * Creates ApiKey instances from a json file containing several keys, such as one per region.
+     *
+     * The file contains either a key object as read by `fromFile()`, a list of them, or an object whose `keys` are
+     * a list of them.
+     *
+     * @param fileName Name of the file containing the keys
+     * @returns {ApiKey[]}
+     * @throws {InvalidKeyError} If the file can't be read or contains an invalid key
+     */
+    public static allFromFile(fileName:string):ApiKey[] {
+        var content:any;
+        try {
+            content = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+        } catch (e) {
+            throw new InvalidKeyError(`${fileName} couldn't be read : ${e.code ? e.code : e.message}`);
+        }
+        var entries:any[] = Array.isArray(content) ? content : (content != null && Array.isArray(content.keys) ? content.keys : [content]);
+        return entries.map((entry, i) => ApiKey.fromEntry(entry, entries.length > 1 ? `Key ${i} of ${fileName}` : `Key of ${fileName}`));
+    }
+
+    /**
+     * Creates an ApiKey instance from an environment variable.
+     *
+     * @param variableName Name of the environment variable that contains the key's string value
+     * @param tournaments Whether or not the key is valid for the tournaments endpoints
+     * @param reload Whether the variable is read again each time the key is used, to rotate it without restarting
+     * @returns {ApiKey}
+     * @throws {InvalidKeyError} If the variable isn't set or isn't a valid key
+     */
+    public static fromEnv(variableName:string, tournaments:boolean = false, reload:boolean = false):ApiKey {
+        var read = () => process.env[variableName];
+        return ApiKey.from(`Environment variable ${variableName}`, () => {
+            // The current value is checked right away, even if the variable is read again on each use
+            var key = new ApiKey(read(), tournaments);
+            return reload ? new ApiKey(read, tournaments) : key;
+        });
+    }
+
+    /**
+     * Checks that a value is a key in the format of ApiKey.FORMAT, without ever putting it in the error.
+     *
+     * Every key is checked here, whether it is given directly, by a function, or read from a file or a variable.
+     */
+    private static check(value:any, subject:string) {
+        if (typeof value !== "string" || value.trim() == "") {
+            throw new InvalidKeyError(`${subject} is empty.`);
+        }
+        if (!ApiKey.FORMAT.test(value.trim())) {
+            throw new InvalidKeyError(`${subject} isn't a valid API key.`);
+        }
+    }
+
+    /**
+     * Creates a key, naming where it comes from in the errors.
+     */
+    private static from(source:string, create:()=>ApiKey):ApiKey {
+        try {
+            return create();
+        } catch (e) {
+            throw e instanceof InvalidKeyError ? new InvalidKeyError(`${source} : ${e.message}`) : e;
+        }
+    }
+
+    private static fromEntry(entry:any, source:string):ApiKey {
+        if (entry == null || typeof entry !== "object" || Array.isArray(entry)) {
+            throw new InvalidKeyError(`${source} must be an object.`);
+        }
+        if (entry.tournaments != null && typeof entry.tournaments !== "boolean") {
+            throw new InvalidKeyError(`${source} must have a boolean "tournaments".`);
+        }
+        if (entry.server != null && !Regions.isRegion(entry.server)) {
+            throw new InvalidKeyError(`${source} has an invalid server "${entry.server}". Valid servers are ${Regions.REGIONS.join(", ")}.`);
+        }
+        var rateLimits:RateLimit[] = null;
+        if (typeof entry.rateLimits === "string") {
+            rateLimits = RateLimiter.parseLimits(entry.rateLimits);
+        } else if (Array.isArray(entry.rateLimits)) {
+            rateLimits = entry.rateLimits;
+        } else if (entry.rateLimits != null) {
+            throw new InvalidKeyError(`${source} must have its "rateLimits" as a list or as a string like "10:10,500:600".`);
+        }
+        if (rateLimits && (rateLimits.length == 0 || rateLimits.some((limit) => !(limit && limit.requests > 0 && limit.seconds > 0)))) {
+            throw new InvalidKeyError(`${source} has invalid "rateLimits".`);
+        }
+        return ApiKey.from(source, () => new ApiKey(entry.value, entry.tournaments === true, {region: entry.server, rateLimits: rateLimits}));
+    }
+}
+
+// Logging a key with console.log() or util.inspect() shows the same as its toString()
+var inspect:typeof util.inspect & {custom?:symbol} = util.inspect;
+if (inspect.custom) {
+    ApiKey.prototype[inspect.custom] = function () {
+        return this.toString();
+    };
+}
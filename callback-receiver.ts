@@ -0,0 +1,273 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as http from 'http';
+import * as events from 'events';
+import * as api from 'league-typedef';
+import {LeagueTypenode} from './index';
+import {Regions} from './regions';
+
+/**
+ * A player of a game, in a tournament callback
+ */
+export interface CallbackPlayer {
+    summonerId:number;
+    summonerName:string;
+}
+
+/**
+ * What the servers of Riot Games POST to the URL of a tournament provider when a game of one of its codes ends
+ */
+export interface TournamentCallback {
+    /**
+     * Time the game started, in milliseconds since the epoch
+     */
+    startTime:number;
+    /**
+     * Tournament code of the game
+     */
+    shortCode:string;
+    /**
+     * Metadata given when creating the code
+     */
+    metaData:string;
+    gameId:number;
+    gameName:string;
+    gameType:string;
+    gameMap:number;
+    gameMode:string;
+    /**
+     * Platform id of the game, such as "EUW1"
+     */
+    region:string;
+    winningTeam:CallbackPlayer[];
+    losingTeam:CallbackPlayer[];
+}
+
+/**
+ * An error that happens when a request received by a CallbackReceiver isn't a valid tournament callback
+ */
+export class InvalidCallbackError implements Error {
+    public name:string = "InvalidCallbackError";
+
+    constructor(public message:string) {
+    }
+}
+
+/**
+ * Options of a CallbackReceiver
+ */
+export interface CallbackReceiverOptions {
+    /**
+     * Instance used to get the match of each game. Matches aren't fetched if omitted.
+     */
+    tn?:LeagueTypenode;
+    /**
+     * Whether the fetched matches include their timeline. Defaults to false.
+     */
+    includeTimeline?:boolean;
+    /**
+     * Path the callbacks are POSTed to. Other requests are left to the next middleware, or answered with a 404 error
+     * when there is none. Defaults to any path.
+     */
+    path?:string;
+    /**
+     * Maximum size of a callback, in bytes. Defaults to 64 kB.
+     */
+    maxBodySize?:number;
+}
+
+/**
+ * Receives the tournament callbacks, either as a standalone server or as a middleware of another one.
+ *
+ * Emits :
+ * - "game" with a TournamentCallback, for each valid callback
+ * - "match" with a MatchDetail and its TournamentCallback, when the match of a game is fetched
+ * - "error" with an Error, for each invalid callback or failed fetch. Errors are ignored when nothing listens to them.
+ */
+export class CallbackReceiver extends events.EventEmitter {
+    private static fields:{[name:string]:string} = {
+        "startTime": "number",
+        "shortCode": "string",
+        "gameId": "number",
+        "region": "string"
+    };
+
+    private server:http.Server = null;
+    private options:CallbackReceiverOptions;
+
+    /**
+     * Creates a CallbackReceiver.
+     *
+     * @param options Options of the receiver
+     */
+    constructor(options:CallbackReceiverOptions = {}) {
+        super();
+        this.options = options;
+    }
+
+    /**
+     * Parses and validates the body of a tournament callback.
+     *
+     * @param body Body of the request
+     * @returns {TournamentCallback}
+     * @throws {InvalidCallbackError} If the body isn't a valid callback
+     */
+    public static parse(body:string):TournamentCallback {
+        var data:any;
+        try {
+            data = JSON.parse(body);
+        } catch (e) {
+            throw new InvalidCallbackError(`Callback isn't valid JSON : ${e.message}`);
+        }
+        if (data == null || typeof data !== "object" || Array.isArray(data)) {
+            throw new InvalidCallbackError("Callback must be a JSON object.");
+        }
+        for (var field in CallbackReceiver.fields) {
+            if (typeof data[field] !== CallbackReceiver.fields[field]) {
+                throw new InvalidCallbackError(`Callback's "${field}" must be a ${CallbackReceiver.fields[field]}.`);
+            }
+        }
+        if (!Regions.isPlatformId(data.region)) {
+            throw new InvalidCallbackError(`Callback's "region" must be a platform id, not "${data.region}".`);
+        }
+        ["winningTeam", "losingTeam"].forEach((team) => {
+            if (!Array.isArray(data[team]) || data[team].some((player:any) => player == null || typeof player.summonerId !== "number")) {
+                throw new InvalidCallbackError(`Callback's "${team}" must be a list of players.`);
+            }
+        });
+        return <TournamentCallback>data;
+    }
+
+    public on(event:"game", listener:(game:TournamentCallback)=>void):this;
+    public on(event:"match", listener:(match:api.match.MatchDetail, game:TournamentCallback)=>void):this;
+    public on(event:"error", listener:(error:Error)=>void):this;
+    public on(event:string, listener:Function):this;
+    public on(event:string, listener:Function):this {
+        super.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Creates a request handler, to give to `http.createServer()` or to use as a middleware.
+     *
+     * @returns {(req:http.IncomingMessage, res:http.ServerResponse, next?:()=>void)=>void}
+     */
+    public handler():(req:http.IncomingMessage, res:http.ServerResponse, next?:()=>void)=>void {
+        return (req:http.IncomingMessage, res:http.ServerResponse, next?:()=>void) => {
+            this.handle(req, res, next);
+        };
+    }
+
+    /**
+     * Starts a standalone server receiving the callbacks.
+     *
+     * @param port Port to listen on. 0 picks a free port.
+     * @param callback Called once the server listens
+     */
+    public listen(port:number, callback?:()=>void) {
+        this.server = http.createServer(this.handler());
+        this.server.listen(port, callback);
+    }
+
+    /**
+     * Port the standalone server listens on
+     */
+    public get port():number {
+        return this.server.address().port;
+    }
+
+    /**
+     * Stops the standalone server.
+     *
+     * @param callback Called once the server is closed
+     */
+    public close(callback?:()=>void) {
+        this.server.close(callback);
+    }
+
+    private handle(req:http.IncomingMessage, res:http.ServerResponse, next?:()=>void) {
+        if (this.options.path && req.url.split("?")[0] != this.options.path) {
+            if (next) {
+                next();
+            } else {
+                CallbackReceiver.respond(res, 404, "Not found");
+            }
+            return;
+        }
+        if (req.method != 'POST') {
+            CallbackReceiver.respond(res, 405, "Callbacks must be POSTed");
+            return;
+        }
+        var maxBodySize = this.options.maxBodySize || 65536;
+        var chunks:Buffer[] = [];
+        var size = 0;
+        var tooLarge = false;
+        req.on('data', (chunk:Buffer) => {
+            if (tooLarge) {
+                return;
+            }
+            size += chunk.length;
+            if (size <= maxBodySize) {
+                chunks.push(chunk);
+                return;
+            }
+            // Stops reading the body, and drops the connection once the error is sent
+            tooLarge = true;
+            chunks = [];
+            req.pause();
+            res.on('finish', () => req.socket.destroy());
+            CallbackReceiver.respond(res, 413, "Callback too large", true);
+            this.fail(new InvalidCallbackError(`Callback is larger than ${maxBodySize} bytes.`));
+        });
+        req.on('end', () => {
+            if (tooLarge) {
+                return;
+            }
+            var body = Buffer.concat(chunks, size).toString('utf8');
+            try {
+                var game = CallbackReceiver.parse(body);
+            } catch (e) {
+                CallbackReceiver.respond(res, 400, e.message);
+                this.fail(e);
+                return;
+            }
+            CallbackReceiver.respond(res, 200, "OK");
+            this.emit("game", game);
+            this.fetchMatch(game);
+        });
+    }
+
+    private fetchMatch(game:TournamentCallback) {
+        if (!this.options.tn) {
+            return;
+        }
+        var region = Regions.regionOf(game.region);
+        this.options.tn.getMatchByIdAndTournamentCode(region, game.gameId, game.shortCode, !!this.options.includeTimeline,
+            (error:Error, match:api.match.MatchDetail) => {
+                if (error) {
+                    this.fail(error);
+                } else {
+                    this.emit("match", match, game);
+                }
+            });
+    }
+
+    private fail(error:Error) {
+        if (this.listeners("error").length > 0) {
+            this.emit("error", error);
+        }
+    }
+
+    private static respond(res:http.ServerResponse, statusCode:number, message:string, close:boolean = false) {
+        var headers:{[name:string]:string} = {'Content-Type': 'text/plain'};
+        if (close) {
+            headers['Connection'] = 'close';
+        }
+        res.writeHead(statusCode, headers);
+        res.end(message);
+    }
+}
@@ -0,0 +1,78 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * Lets calls in progress be aborted, such as every request of a long fan-out.
+ *
+ * Give it to the calls through `withOptions({cancellation: token})`, then call `cancel()` : the requests waiting or
+ * in flight fail with a CancelledError, and no other one is sent.
+ */
+export class CancellationToken {
+    private cancelReason:string = null;
+    private listeners:((reason:string)=>void)[] = [];
+
+    /**
+     * Creates a token that gets cancelled after a delay.
+     *
+     * @param delay Time before the token gets cancelled, in milliseconds
+     * @returns {CancellationToken}
+     */
+    public static timeout(delay:number):CancellationToken {
+        var token = new CancellationToken();
+        var timer = setTimeout(() => token.cancel(`Cancelled after ${delay} ms`), delay);
+        token.onCancel(() => clearTimeout(timer));
+        return token;
+    }
+
+    /**
+     * Whether the token was cancelled
+     */
+    public get cancelled():boolean {
+        return this.cancelReason != null;
+    }
+
+    /**
+     * Why the token was cancelled, or null if it wasn't
+     */
+    public get reason():string {
+        return this.cancelReason;
+    }
+
+    /**
+     * Cancels the token. Cancelling it again does nothing.
+     *
+     * @param reason Why the token is cancelled
+     */
+    public cancel(reason:string = "Cancelled") {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelReason = reason;
+        var listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach((listener) => listener(reason));
+    }
+
+    /**
+     * Adds a listener called once the token is cancelled, right away if it already is.
+     *
+     * @param listener Called with the reason of the cancellation
+     * @returns {()=>void} Removes the listener
+     */
+    public onCancel(listener:(reason:string)=>void):()=>void {
+        if (this.cancelled) {
+            listener(this.cancelReason);
+            return () => {};
+        }
+        this.listeners.push(listener);
+        return () => {
+            var index = this.listeners.indexOf(listener);
+            if (index != -1) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+}
@@ -0,0 +1,112 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import {Regions} from './regions';
+
+/**
+ * Where the requests of an endpoint family are sent
+ */
+export interface EndpointOptions {
+    /**
+     * Host of the servers. "{region}" is replaced by the region of the request ("global" for the endpoints that
+     * aren't tied to a region), and "{platform}" by its platform id.
+     */
+    host?:string;
+    /**
+     * Either "http" or "https"
+     */
+    protocol?:string;
+    /**
+     * Port of the servers. Defaults to the port of the protocol.
+     */
+    port?:number;
+}
+
+/**
+ * Host, protocol and port of a request
+ */
+export interface Endpoint {
+    /**
+     * Either "http:" or "https:"
+     */
+    protocol:string;
+    hostname:string;
+    port:number;
+}
+
+/**
+ * Finds where to send the requests of each endpoint family
+ */
+export class Endpoints {
+    /**
+     * Family whose options apply to every family
+     */
+    public static ALL = "*";
+
+    /**
+     * Default options of the endpoint families. The options of "*" apply to the families not listed.
+     */
+    public static DEFAULTS:{[family:string]:EndpointOptions} = {
+        "*": {host: "{region}.api.pvp.net", protocol: "https"},
+        "lol-static-data": {host: "global.api.pvp.net"},
+        "lol-status": {host: "status.leagueoflegends.com", protocol: "http"},
+        "tournament-provider": {host: "global.api.pvp.net"}
+    };
+
+    private options:{[family:string]:EndpointOptions};
+
+    /**
+     * Creates an Endpoints from the options of some families.
+     *
+     * Options given for "*" apply to every family, over their default options.
+     *
+     * @param options Options by endpoint family (such as "lol-static-data"), or "*"
+     * @throws {Error} If a protocol is neither "http" nor "https"
+     */
+    constructor(options:{[family:string]:EndpointOptions} = {}) {
+        for (var family in options) {
+            var protocol = options[family].protocol;
+            if (protocol != null && ["http", "https"].indexOf(protocol.replace(/:$/, "")) == -1) {
+                throw new Error(`Protocol of "${family}" must be either "http" or "https", not "${protocol}".`);
+            }
+        }
+        this.options = options;
+    }
+
+    /**
+     * Finds where to send a request.
+     *
+     * @param family Endpoint family of the request, or null if it isn't known
+     * @param region Region of the request, or "global"
+     * @returns {Endpoint}
+     */
+    public resolve(family:string, region:string):Endpoint {
+        var host = <string>this.option(family, "host");
+        var port = <number>this.option(family, "port");
+        var platform = Regions.isRegion(region) ? Regions.platformOf(region) : region.toUpperCase();
+        return {
+            protocol: `${(<string>this.option(family, "protocol")).replace(/:$/, "")}:`,
+            hostname: host.replace(/\{region\}/g, region).replace(/\{platform\}/g, platform),
+            port: port != null ? Number(port) : null
+        };
+    }
+
+    /**
+     * Gets an option of a family, from the most specific options to the least specific ones.
+     */
+    private option(family:string, name:string):any {
+        var sources = [this.options[Endpoints.ALL], Endpoints.DEFAULTS[Endpoints.ALL]];
+        if (family != null) {
+            sources = [this.options[family], sources[0], Endpoints.DEFAULTS[family], sources[1]];
+        }
+        for (var i = 0; i < sources.length; i++) {
+            if (sources[i] && sources[i][name] != null) {
+                return sources[i][name];
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,259 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * The request a RequestError happened on
+ */
+export interface RequestContext {
+    /**
+     * Name of the operation, such as "getSummonerByIds"
+     */
+    operation:string;
+    /**
+     * Region of the request, or "global" for the endpoints that aren't tied to a region
+     */
+    region:string;
+    /**
+     * HTTP method of the request
+     */
+    method:string;
+    /**
+     * URL of the request, without its API key
+     */
+    url:string;
+}
+
+/**
+ * An error that happens while calling the API
+ */
+export class RequestError implements Error {
+    public name:string = "RequestError";
+
+    /**
+     * @param message Description of the error
+     * @param context Request the error happened on
+     * @param headers Headers of the response, with lowercase names. Empty if no response was received.
+     */
+    constructor(public message:string, public context:RequestContext = null, public headers:{[name:string]:string} = {}) {
+    }
+}
+
+/**
+ * An HTTP error that was answered from the server
+ */
+export class ApiError extends RequestError {
+    public name:string = "ApiError";
+
+    constructor(public code:number, message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(message, context, headers);
+    }
+
+    /**
+     * Creates the error matching a status code.
+     *
+     * @param code HTTP status code
+     * @param message Description of the error
+     * @param context Request the error happened on
+     * @param headers Headers of the response, with lowercase names
+     * @returns {ApiError}
+     */
+    public static fromStatus(code:number, message:string, context:RequestContext = null, headers:{[name:string]:string} = {}):ApiError {
+        switch (code) {
+            case 400:
+                return new BadRequestError(message, context, headers);
+            case 401:
+                return new UnauthorizedError(message, context, headers);
+            case 403:
+                return new ForbiddenError(message, context, headers);
+            case 404:
+                return new NotFoundError(message, context, headers);
+            case 415:
+                return new UnsupportedMediaTypeError(message, context, headers);
+            case 429:
+                return new TooManyRequestsError(message, headers['retry-after'] != null ? Number(headers['retry-after']) : null,
+                    <"user"|"application"|"method"|"service">headers['x-rate-limit-type'], context, headers);
+            case 500:
+                return new InternalServerError(message, context, headers);
+            case 503:
+                return new ServiceUnavailableError(message, context, headers);
+            default:
+                return new ApiError(code, message, context, headers);
+        }
+    }
+}
+
+/**
+ * An error that happens when a request is malformed (400)
+ */
+export class BadRequestError extends ApiError {
+    public name:string = "BadRequestError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(400, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when a request has no API key (401)
+ */
+export class UnauthorizedError extends ApiError {
+    public name:string = "UnauthorizedError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(401, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the API key is invalid or can't use an endpoint (403)
+ */
+export class ForbiddenError extends ApiError {
+    public name:string = "ForbiddenError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(403, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the data asked for doesn't exist (404)
+ */
+export class NotFoundError extends ApiError {
+    public name:string = "NotFoundError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(404, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the body of a request isn't in a supported format (415)
+ */
+export class UnsupportedMediaTypeError extends ApiError {
+    public name:string = "UnsupportedMediaTypeError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(415, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the number of calls ot the API exceed the key's rate limit (429)
+ */
+export class TooManyRequestsError extends ApiError {
+    public name:string = "TooManyRequestsError";
+
+    /**
+     * @param message Message of the error
+     * @param retryAfter Time to wait before sending the request again, in seconds, if the server gave it
+     * @param limitType Limit that was exceeded, from the `X-Rate-Limit-Type` header : one of the key ("user",
+     * "application" or "method"), or one of the servers of the API ("service"), which doesn't depend on the key
+     * @param context Context of the request
+     * @param headers Headers of the response
+     */
+    constructor(message:string, public retryAfter:number, public limitType:"user"|"application"|"method"|"service",
+                context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(429, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the servers fail to answer a request (500)
+ */
+export class InternalServerError extends ApiError {
+    public name:string = "InternalServerError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(500, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when the servers are unavailable (503)
+ */
+export class ServiceUnavailableError extends ApiError {
+    public name:string = "ServiceUnavailableError";
+
+    constructor(message:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(503, message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when no response is received, such as when the connection fails
+ */
+export class TransportError extends RequestError {
+    public name:string = "TransportError";
+
+    /**
+     * @param message Description of the error
+     * @param code Code of the network error, such as "ECONNRESET"
+     * @param cause Error given by the transport
+     * @param context Request the error happened on
+     */
+    constructor(message:string, public code:string, public cause:Error = null, context:RequestContext = null) {
+        super(message, context);
+    }
+}
+
+/**
+ * An error that happens when a request takes too long
+ */
+export class TimeoutError extends TransportError {
+    public name:string = "TimeoutError";
+
+    constructor(message:string, cause:Error = null, context:RequestContext = null) {
+        super(message, "ETIMEDOUT", cause, context);
+    }
+}
+
+/**
+ * An error that happens when a call is cancelled through its CancellationToken
+ */
+export class CancelledError extends RequestError {
+    public name:string = "CancelledError";
+
+    /**
+     * @param message Description of the error
+     * @param reason Reason given to the cancellation
+     * @param context Request the error happened on
+     */
+    constructor(message:string, public reason:string, context:RequestContext = null) {
+        super(message, context);
+    }
+}
+
+/**
+ * An error that happens when the body of a response can't be read
+ */
+export class ParseError extends RequestError {
+    public name:string = "ParseError";
+
+    /**
+     * @param message Description of the error
+     * @param body Body of the response
+     * @param context Request the error happened on
+     * @param headers Headers of the response, with lowercase names
+     */
+    constructor(message:string, public body:string, context:RequestContext = null, headers:{[name:string]:string} = {}) {
+        super(message, context, headers);
+    }
+}
+
+/**
+ * An error that happens when some of the batches of a batched call fail
+ */
+export class BatchError implements Error {
+    public name:string = "BatchError";
+
+    /**
+     * @param message Description of the error
+     * @param data Merged data of the batches that succeeded
+     * @param failures Ids of each batch that failed, along with its error
+     */
+    constructor(public message:string, public data:Object, public failures:{ids:string[], error:Error}[]) {
+    }
+}
@@ -15,6 +15,7 @@ gulp.task('buildSrc', function () {
         .pipe(ts({
             module: "commonjs",
             target: "es5",
+            lib: ["es5", "dom", "es2015.promise"],
             removeComments: true
         }))
         .pipe(sourcemaps.write())
@@ -27,6 +28,7 @@ gulp.task('buildTest', function () {
         .pipe(ts({
             module: "commonjs",
             target: "es5",
+            lib: ["es5", "dom", "es2015.promise"],
             removeComments: true
         }))
         .pipe(sourcemaps.write())
@@ -34,7 +36,7 @@ gulp.task('buildTest', function () {
 });
 
 gulp.task('pre-test', ['build'], function () {
-    return gulp.src(['index.js'])
+    return gulp.src(['*.js', '!gulpfile.js'])
         // Covering files
         .pipe(istanbul())
         // Force `require` to return covered files
@@ -42,7 +44,7 @@ gulp.task('pre-test', ['build'], function () {
 });
 
 gulp.task('test', ['pre-test'], function () {
-    gulp.src('test/league-typenode-tests.js', {read: false})
+    gulp.src('test/*-tests.js', {read: false})
         .pipe(mocha())
         // Creating the reports after tests ran
         .pipe(istanbul.writeReports());
@@ -4,75 +4,146 @@
  Copyright (C) 2016 Kewin Dousse (Protectator)
  */
 
-import * as https from 'https';
-import * as http from 'http';
 import * as url from 'url';
 import * as api from 'league-typedef';
 import * as fs from 'fs';
+import {RateLimiter, RateLimit} from './rate-limiter';
+import {RetryPolicy, RetryOptions} from './retry-policy';
+import {ResponseCache, CacheOptions} from './response-cache';
+import {Regions} from './regions';
+import {Transport, TransportRequest, TransportResponse, NodeTransport} from './transport';
+import {Endpoints, EndpointOptions} from './endpoints';
+import {CancellationToken} from './cancellation';
+import {ApiKey} from './api-key';
+import {Promises} from './promises';
+import {KeyPool, KeyPoolOptions, KeyUsage} from './key-pool';
+import {Middleware, MiddlewareChain, MiddlewareRequest} from './middleware';
+import {MatchHistory, MatchHistoryOptions} from './match-history';
+import {SnapshotTransport} from './static-data-snapshot';
+import {RankedQueue, Season, ChampionDataTag, ItemDataTag, ItemListDataTag, MasteryDataTag, MasteryListDataTag, RuneDataTag,
+    RuneListDataTag, SpellDataTag, ChampionsStatusOptions, TopChampionsOptions, StaticDataOptions, ChampionListOptions,
+    ChampionOptions, ItemListOptions, ItemOptions, MasteryListOptions, MasteryOptions, RuneListOptions, RuneOptions,
+    SummonerSpellListOptions, SummonerSpellOptions, MatchOptions, TournamentMatchOptions, MatchListOptions,
+    StatsOptions} from './operation-options';
+import {RequestContext, RequestError, ApiError, TransportError, TimeoutError, CancelledError, ParseError, BatchError} from './errors';
+
+export {RequestContext, RequestError, ApiError, BadRequestError, UnauthorizedError, ForbiddenError, NotFoundError,
+    UnsupportedMediaTypeError, TooManyRequestsError, InternalServerError, ServiceUnavailableError, TransportError,
+    TimeoutError, CancelledError, ParseError, BatchError} from './errors';
+export {CancellationToken} from './cancellation';
+export {ApiKey, ApiKeyOptions, KeyProvider, InvalidKeyError} from './api-key';
+export {KeyPool, KeyPoolOptions, KeyUsage} from './key-pool';
+export {Middleware, MiddlewareChain, MiddlewareRequest} from './middleware';
+export {MatchHistory, MatchHistoryOptions, MatchHistoryResult} from './match-history';
+export {MatchEnricher, MatchEnricherOptions, EnrichedMatch, EnrichedParticipant, EnrichedTeam, EnrichedBan, EnrichedRune,
+    EnrichedMastery, StaticInfo, ChampionInfo} from './match-enricher';
+export {MatchTimeline, MissingTimelineError, ParticipantCurves, ObjectiveEvent, Objectives, ItemPurchase} from './match-timeline';
+export {StaticDataSnapshot, SnapshotTransport, SnapshotManifest, SnapshotOptions} from './static-data-snapshot';
+export {RankedQueue, Season, ChampionDataTag, ItemDataTag, ItemListDataTag, MasteryDataTag, MasteryListDataTag, RuneDataTag,
+    RuneListDataTag, SpellDataTag, ChampionsStatusOptions, TopChampionsOptions, StaticDataOptions, ChampionListOptions,
+    ChampionOptions, ItemListOptions, ItemOptions, MasteryListOptions, MasteryOptions, RuneListOptions, RuneOptions,
+    SummonerSpellListOptions, SummonerSpellOptions, MatchOptions, TournamentMatchOptions, MatchListFilters,
+    MatchListOptions, StatsOptions} from './operation-options';
+export {RateLimiter, RateLimit} from './rate-limiter';
+export {RetryPolicy, RetryOptions} from './retry-policy';
+export {ResponseCache, CacheOptions, CacheStore, LruCacheStore} from './response-cache';
+export {Region, PlatformId, Regions, InvalidRegionError} from './regions';
+export {Transport, TransportRequest, TransportResponse, NodeTransport, NodeTransportOptions} from './transport';
+export {MockServer, MockServerOptions, Fixture} from './mock-server';
+export {Endpoints, Endpoint, EndpointOptions} from './endpoints';
+export {TournamentManager, TournamentManagerOptions, TournamentState, TournamentStore, MemoryTournamentStore, FileTournamentStore, CodeState, CodeStatus} from './tournament-manager';
+export {CallbackReceiver, CallbackReceiverOptions, TournamentCallback, CallbackPlayer, InvalidCallbackError} from './callback-receiver';
 
 /**
- * A key used to access the API
+ * Options of a LeagueTypenode instance
  */
-export class ApiKey {
+export interface LeagueTypenodeOptions {
     /**
-     * Creates an ApiKey instance from its value.
+     * Rate limits of the key, applied separately to each region. Requests exceeding them are queued.
      *
-     * @param value Actual string of the key
-     * @param tournaments Whether or not the key is valid for the tournaments endpoints
+     * Limits announced by the server through the `X-App-Rate-Limit` header replace these ones.
      */
-    constructor(public value:string, public tournaments:boolean = false) {
-
-    }
-
+    rateLimits?:RateLimit[];
     /**
-     * Creates an ApiKey instance from a json file.
-     *
-     * @param fileName Name of the file containing the key
-     * @returns {ApiKey}
+     * How failed requests are sent again. Requests are not retried if omitted.
      */
-    public static fromFile(fileName:string):ApiKey {
-        var fileContent:any = fs.readFileSync(fileName);
-        var jsonContent = JSON.parse(fileContent);
-        return new ApiKey(jsonContent.value, jsonContent.tournaments);
-    }
-
+    retry?:RetryOptions;
     /**
-     * Creates an ApiKey instance from an environment variable.
-     *
-     * @param variableName Name of the environment variable that contains the key's string value
-     * @param tournaments Whether or not the key is valid for the tournaments endpoints
-     * @returns {ApiKey}
+     * How responses are cached. Responses are not cached if omitted.
      */
-    public static fromEnv(variableName:string, tournaments:boolean):ApiKey {
-        var value:string;
-        value = process.env[variableName];
-        return new ApiKey(value, tournaments);
-    }
+    cache?:CacheOptions;
+    /**
+     * Sends the HTTP requests. Defaults to a NodeTransport.
+     */
+    transport?:Transport;
+    /**
+     * Host, protocol and port of the servers, by endpoint family (such as "lol-static-data"). Options given for "*"
+     * apply to every family.
+     */
+    endpoints?:{[family:string]:EndpointOptions};
+    /**
+     * Time after which a request fails with a TimeoutError, in milliseconds. Each attempt of a retried request gets
+     * this time. Requests never time out if omitted.
+     */
+    timeout?:number;
+    /**
+     * How the keys are pulled out of rotation, when several keys are given
+     */
+    keyPool?:KeyPoolOptions;
+    /**
+     * Where the key is sent : in the `X-Riot-Token` header, or in the `api_key` parameter of the query string.
+     * Defaults to "header", which keeps the key out of the URLs logged by proxies.
+     */
+    keyLocation?:"header"|"query";
 }
 
 /**
- * An HTTP error that was answered from the server
+ * Options applying to the requests of a single call
+ *
+ * @see LeagueTypenode.withOptions
  */
-export class ApiError implements Error {
-    public name:string = "ApiError";
-
-    constructor(public code:number, public message:string) {
-    }
+export interface CallOptions {
+    /**
+     * Set to false to ignore the responses in the cache. The fresh response is still cached.
+     */
+    cache?:boolean;
+    /**
+     * Time after which a request fails with a TimeoutError, in milliseconds, instead of the one of the instance
+     */
+    timeout?:number;
+    /**
+     * Token aborting the calls when cancelled. They fail with a CancelledError then.
+     */
+    cancellation?:CancellationToken;
 }
 
 /**
- * An error that happens when the number of calls ot the API exceed the key's rate limit
+ * Url of a request to the API
  */
-export class TooManyRequestsError extends ApiError {
-    public name:string = "TooManyRequestsError";
-
-    constructor(message:string, public retryAfter:number, public limitType:"user"|"service") {
-        super(429, message);
-    }
+interface ApiUrl extends url.Url {
+    /**
+     * Name of the rate limiter's bucket the request counts against, if any
+     */
+    bucket?:string;
+    /**
+     * Region of the request, or "global"
+     */
+    region?:string;
+    /**
+     * Name of the operation making the request
+     */
+    operation?:string;
+    /**
+     * Key the request is sent with : one of the pool, the tournaments key, or none
+     */
+    keyType?:"standard"|"tournaments";
 }
 
 /**
  * Handles the calls to the API
+ *
+ * Every operation accepts an optional callback as its last parameter. When no callback is given,
+ * the operation returns a Promise of the same data instead.
  */
 export class LeagueTypenode implements api.champion.Operations, api.championmastery.Operations,
     api.currentGame.Operations, api.featuredGames.Operations, api.game.Operations, api.league.Operations,
@@ -80,46 +151,119 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     api.stats.Operations, api.summoner.Operations, api.team.Operations, api.tournamentProvider.Operations {
 
     /**
-     * Key used for all standard API requests
+     * Keys used for all standard API requests
      */
-    protected key:ApiKey;
+    protected keys:KeyPool;
     /**
      * Key used for requests to the tournaments endpoints
      */
     protected tournamentsKey:ApiKey;
 
-    private baseConfig:url.Url = {
-        protocol: 'https',
-        slashes: true
-    };
-    private static platformRegion = {
-        'BR1': 'br',
-        'EUN1': 'eune',
-        'EUW1': 'euw',
-        'KR': 'kr',
-        'LA1': 'lan',
-        'LA2': 'las',
-        'NA1': 'na',
-        'OC1': 'oce',
-        'TR1': 'tr',
-        'RU': 'ru',
-        'PBE1': 'pbe'
-    };
+    /**
+     * Paces the requests made to the API
+     */
+    protected rateLimiter:RateLimiter;
+    /**
+     * Decides which failed requests are sent again
+     */
+    protected retryPolicy:RetryPolicy;
+    /**
+     * Caches the responses of the API
+     */
+    protected cache:ResponseCache;
+    /**
+     * Sends the HTTP requests
+     */
+    protected transport:Transport;
+    /**
+     * Finds where the requests are sent
+     */
+    protected endpoints:Endpoints;
+    /**
+     * Time after which a request fails, in milliseconds, or null
+     */
+    protected timeout:number;
+    /**
+     * Where the key is sent
+     */
+    protected keyLocation:"header"|"query";
+    /**
+     * Hooks run on every request sent
+     */
+    protected middlewares:MiddlewareChain = new MiddlewareChain();
+    /**
+     * Options of the calls made through this instance
+     */
+    protected callOptions:CallOptions = {};
+    /**
+     * Callbacks waiting for the GET requests in flight, by method and resource
+     */
+    private inFlight:{[key:string]:((error:Error, data:any, json:string)=>void)[]} = {};
+
+    /**
+     * Maximum number of summoners asked by a single request, for the summoner endpoints
+     */
+    private static summonerBatchSize = 40;
+    /**
+     * Maximum number of summoners asked by a single request, for the league endpoints
+     */
+    private static leagueBatchSize = 10;
 
     /**
      * Instanciates a LeagueTypenode object using a key value
      *
-     * @param keyValue The API key's value, or ApiKey
+     * When several keys are given, the requests are spread over them, according to their rate limits in each region.
+     * The first key valid for the tournaments endpoints is also used as the tournaments key.
+     *
+     * @param keyValue The API key's value, or ApiKey, or a list of them
+     * @param options Options of the instance
      */
-    constructor(keyValue:string|ApiKey) {
-        if (keyValue instanceof ApiKey) {
-            this.key = keyValue;
-            return;
-        } else if (typeof keyValue === "string") {
-            this.key = new ApiKey(keyValue, false);
-        } else {
-            throw new Error("keyValue must be either a string or an ApiKey.");
+    constructor(keyValue:string|ApiKey|(string|ApiKey)[], options:LeagueTypenodeOptions = {}) {
+        this.rateLimiter = new RateLimiter(options.rateLimits);
+        this.retryPolicy = options.retry ? new RetryPolicy(options.retry) : RetryPolicy.none();
+        this.cache = options.cache ? new ResponseCache(options.cache) : null;
+        this.transport = options.transport || new NodeTransport();
+        this.endpoints = new Endpoints(options.endpoints);
+        this.timeout = options.timeout != null ? options.timeout : null;
+        this.keyLocation = options.keyLocation || "header";
+        var keys = (Array.isArray(keyValue) ? keyValue : [keyValue]).map((value) => {
+            if (value instanceof ApiKey) {
+                return value;
+            } else if (typeof value === "string") {
+                return new ApiKey(value, false);
+            } else {
+                throw new Error("keyValue must be either a string or an ApiKey.");
+            }
+        });
+        if (keys.length == 0) {
+            throw new Error("keyValue must contain at least one key.");
         }
+        this.keys = new KeyPool(keys, options.keyPool);
+        keys.some((key) => {
+            if (key.tournaments) {
+                this.tournamentsKey = key;
+            }
+            return key.tournaments;
+        });
+    }
+
+    /**
+     * Instanciates a LeagueTypenode object answering the static data operations from a snapshot, without any network
+     * and without a key. Every other operation fails.
+     *
+     * @param directory Directory of a snapshot written by StaticDataSnapshot.download
+     * @param options Options of the instance. Its transport is replaced by a SnapshotTransport.
+     * @returns {LeagueTypenode}
+     * @see StaticDataSnapshot.download
+     */
+    public static offline(directory:string, options:LeagueTypenodeOptions = {}):LeagueTypenode {
+        var offlineOptions:LeagueTypenodeOptions = {};
+        for (var key in options) {
+            offlineOptions[key] = options[key];
+        }
+        offlineOptions.transport = new SnapshotTransport(directory);
+        // The snapshot answers every request, so this key is never sent
+        return new LeagueTypenode("00000000-0000-0000-0000-000000000000", offlineOptions);
     }
 
     /**
@@ -129,43 +273,94 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
      *
      * @param keyValue The API key's value, or ApiKey
      */
-    public addTournamentsKey(keyValue:ApiKey) {
+    public addTournamentsKey(keyValue:string|ApiKey) {
         if (keyValue instanceof ApiKey) {
-            this.key = keyValue;
-            return;
+            this.tournamentsKey = keyValue;
+        } else if (typeof keyValue === "string") {
+            this.tournamentsKey = new ApiKey(keyValue, true);
         } else {
             throw new Error("keyValue must be either a string or an ApiKey.");
         }
     }
 
+    /**
+     * Adds a middleware, whose hooks are run on every request sent by this instance and its views, after the ones of
+     * the middlewares added before.
+     *
+     * @param middleware Middleware to add
+     * @returns {LeagueTypenode} This instance
+     */
+    public use(middleware:Middleware):this {
+        this.middlewares.use(middleware);
+        return this;
+    }
+
+    /**
+     * Gives the usage of each key of this instance, in the order they were given.
+     *
+     * @returns {KeyUsage[]}
+     */
+    public keyUsage():KeyUsage[] {
+        return this.keys.usage();
+    }
+
+    /**
+     * Creates a view of this instance whose calls use other options.
+     *
+     * The view shares its keys, cache and rate limits with this instance.
+     *
+     * @param options Options overriding the ones of this instance
+     * @returns {LeagueTypenode}
+     */
+    public withOptions(options:CallOptions):this {
+        var view:this = Object.create(this);
+        var merged:CallOptions = {};
+        var option:string;
+        for (option in this.callOptions) {
+            merged[option] = this.callOptions[option];
+        }
+        for (option in options) {
+            merged[option] = options[option];
+        }
+        view.callOptions = merged;
+        return view;
+    }
+
     // champion
 
+    /**
+     * Retrieves all champions, with the optional parameters given in an object.
+     */
+    public getChampionsStatus(region:string, options?:ChampionsStatusOptions, callback?:(error:Error, data:api.champion.ChampionListDto)=>void):Promise<api.champion.ChampionListDto>;
     /**
      * @inheritdoc
      */
-    public getChampionsStatus(region:string, freeToPlay?:boolean, callback?:(error:Error, data:api.champion.ChampionListDto)=>void):void {
+    public getChampionsStatus(region:string, freeToPlay?:boolean, callback?:(error:Error, data:api.champion.ChampionListDto)=>void):Promise<api.champion.ChampionListDto>;
+    public getChampionsStatus(region:string, freeToPlay?:any, callback?:any):Promise<api.champion.ChampionListDto> {
+        if (LeagueTypenode.isOptions(freeToPlay)) {
+            var options:ChampionsStatusOptions = freeToPlay;
+            return this.getChampionsStatus(region, options.freeToPlay, callback);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v1.2/champion`;
         var query = LeagueTypenode.encodeProperties({
             "freeToPlay": freeToPlay
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.champion.ChampionListDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.champion.ChampionListDto>("getChampionsStatus", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getChampionStatusById(region:string, id:number, callback?:(error:Error, data:api.champion.ChampionDto)=>void):void {
+    public getChampionStatusById(region:string, id:number, callback?:(error:Error, data:api.champion.ChampionDto)=>void):Promise<api.champion.ChampionDto> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v1.2/champion/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "id": id
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.champion.ChampionDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.champion.ChampionDto>("getChampionStatusById", reqUrl, 'GET', '', callback);
     }
 
     // championmastery
@@ -173,51 +368,56 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getChampionMastery(platformId:string, playerId:number, championId:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto)=>void):void {
+    public getChampionMastery(platformId:string, playerId:number, championId:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto)=>void):Promise<api.championmastery.ChampionMasteryDto> {
+        platformId = Regions.parsePlatformId(platformId);
         var path = `/championmastery/location/${platformId}/player/${playerId}/champion/${championId}`;
         var query = {};
-        var reqUrl = this.apiUrl(LeagueTypenode.platformRegion[platformId], path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.championmastery.ChampionMasteryDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(Regions.regionOf(platformId), path, query);
+        return this.apiRequest<api.championmastery.ChampionMasteryDto>("getChampionMastery", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getChampionsMastery(platformId:string, playerId:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto[])=>void):void {
+    public getChampionsMastery(platformId:string, playerId:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto[])=>void):Promise<api.championmastery.ChampionMasteryDto[]> {
+        platformId = Regions.parsePlatformId(platformId);
         var path = `/championmastery/location/${platformId}/player/${playerId}/champions`;
         var query = {};
-        var reqUrl = this.apiUrl(LeagueTypenode.platformRegion[platformId], path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.championmastery.ChampionMasteryDto[]>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(Regions.regionOf(platformId), path, query);
+        return this.apiRequest<api.championmastery.ChampionMasteryDto[]>("getChampionsMastery", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getScore(platformId:string, playerId:number, callback?:(error:Error, data:number)=>void):void {
+    public getScore(platformId:string, playerId:number, callback?:(error:Error, data:number)=>void):Promise<number> {
+        platformId = Regions.parsePlatformId(platformId);
         var path = `/championmastery/location/${platformId}/player/${playerId}/score`;
         var query = {};
-        var reqUrl = this.apiUrl(LeagueTypenode.platformRegion[platformId], path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<number>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(Regions.regionOf(platformId), path, query);
+        return this.apiRequest<number>("getScore", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the champions of a player with the highest mastery, with the optional parameters given in an object.
+     */
+    public getTopChampions(platformId:string, playerId:number, options?:TopChampionsOptions, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto[])=>void):Promise<api.championmastery.ChampionMasteryDto[]>;
     /**
      * @inheritdoc
      */
-    public getTopChampions(platformId:string, playerId:number, count:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto[])=>void):void {
+    public getTopChampions(platformId:string, playerId:number, count:number, callback?:(error:Error, data:api.championmastery.ChampionMasteryDto[])=>void):Promise<api.championmastery.ChampionMasteryDto[]>;
+    public getTopChampions(platformId:string, playerId:number, count?:any, callback?:any):Promise<api.championmastery.ChampionMasteryDto[]> {
+        if (LeagueTypenode.isOptions(count)) {
+            var options:TopChampionsOptions = count;
+            return this.getTopChampions(platformId, playerId, options.count, callback);
+        }
+        platformId = Regions.parsePlatformId(platformId);
         var path = `/championmastery/location/${platformId}/player/${playerId}/topchampions`;
         var query = LeagueTypenode.encodeProperties({
             "count": count
         });
-        var reqUrl = this.apiUrl(LeagueTypenode.platformRegion[platformId], path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.championmastery.ChampionMasteryDto[]>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(Regions.regionOf(platformId), path, query);
+        return this.apiRequest<api.championmastery.ChampionMasteryDto[]>("getTopChampions", reqUrl, 'GET', '', callback);
     }
 
     // current-game
@@ -225,13 +425,12 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getSpectatorGameInfoBySummonerId(platformId:string, summonerId:number, callback?:(error:Error, data:api.currentGame.CurrentGameInfo)=>void):void {
+    public getSpectatorGameInfoBySummonerId(platformId:string, summonerId:number, callback?:(error:Error, data:api.currentGame.CurrentGameInfo)=>void):Promise<api.currentGame.CurrentGameInfo> {
+        platformId = Regions.parsePlatformId(platformId);
         var path = `/observer-mode/rest/consumer/getSpectatorGameInfo/${platformId}/${summonerId}`;
         var query = {};
-        var reqUrl = this.apiUrl(LeagueTypenode.platformRegion[platformId], path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.currentGame.CurrentGameInfo>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(Regions.regionOf(platformId), path, query);
+        return this.apiRequest<api.currentGame.CurrentGameInfo>("getSpectatorGameInfoBySummonerId", reqUrl, 'GET', '', callback);
     }
 
     // featured-games
@@ -239,13 +438,12 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getFeaturedGames(region:string, callback?:(error:Error, data:api.featuredGames.FeaturedGames)=>void):void {
+    public getFeaturedGames(region:string, callback?:(error:Error, data:api.featuredGames.FeaturedGames)=>void):Promise<api.featuredGames.FeaturedGames> {
+        region = Regions.parseRegion(region);
         var path = `/observer-mode/rest/featured`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.featuredGames.FeaturedGames>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.featuredGames.FeaturedGames>("getFeaturedGames", reqUrl, 'GET', '', callback);
     }
 
     // game
@@ -253,13 +451,12 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getRecentGamesBySummonerId(region:string, summonerId:number, callback?:(error:Error, data:api.game.RecentGamesDto)=>void):void {
+    public getRecentGamesBySummonerId(region:string, summonerId:number, callback?:(error:Error, data:api.game.RecentGamesDto)=>void):Promise<api.game.RecentGamesDto> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v1.3/game/by-summoner/${summonerId}/recent`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.game.RecentGamesDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.game.RecentGamesDto>("getRecentGamesBySummonerId", reqUrl, 'GET', '', callback);
     }
 
     // league
@@ -267,85 +464,89 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getLeagueBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):void {
-        var path = `/api/lol/${region}/v2.5/league/by-summoner/${summonerIds}`;
+    public getLeagueBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.5/league/by-summoner/${LeagueTypenode.list(summonerIds)}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.league.LeagueDto[]}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.league.LeagueDto[]}>("getLeagueBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLeagueEntryBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):void {
-        var path = `/api/lol/${region}/v2.5/league/by-summoner/${summonerIds}/entry`;
+    public getLeagueEntryBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.5/league/by-summoner/${LeagueTypenode.list(summonerIds)}/entry`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.league.LeagueDto[]}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.league.LeagueDto[]}>("getLeagueEntryBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLeagueByTeamIds(region:string, teamIds:string, callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):void {
-        var path = `/api/lol/${region}/v2.5/league/by-team/${teamIds}`;
+    public getLeagueByTeamIds(region:string, teamIds:string|string[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.5/league/by-team/${LeagueTypenode.list(teamIds)}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.league.LeagueDto[]}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.league.LeagueDto[]}>("getLeagueByTeamIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLeagueEntryByTeamIds(region:string, teamIds:string, callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):void {
-        var path = `/api/lol/${region}/v2.5/league/by-team/${teamIds}/entry`;
+    public getLeagueEntryByTeamIds(region:string, teamIds:string|string[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.5/league/by-team/${LeagueTypenode.list(teamIds)}/entry`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.league.LeagueDto[]}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.league.LeagueDto[]}>("getLeagueEntryByTeamIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLeagueChallenger(region:string, type:string, callback?:(error:Error, data:api.league.LeagueDto)=>void):void {
+    public getLeagueChallenger(region:string, type:string, callback?:(error:Error, data:api.league.LeagueDto)=>void):Promise<api.league.LeagueDto> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.5/league/challenger`;
         var query = LeagueTypenode.encodeProperties({
             "type": type
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.league.LeagueDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.league.LeagueDto>("getLeagueChallenger", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLeagueMaster(region:string, type:string, callback?:(error:Error, data:api.league.LeagueDto)=>void):void {
+    public getLeagueMaster(region:string, type:string, callback?:(error:Error, data:api.league.LeagueDto)=>void):Promise<api.league.LeagueDto> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.5/league/master`;
         var query = LeagueTypenode.encodeProperties({
             "type": type
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.league.LeagueDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.league.LeagueDto>("getLeagueMaster", reqUrl, 'GET', '', callback);
     }
 
     // lol-static-data
 
+    /**
+     * Retrieves the champion list, with the optional parameters given in an object.
+     */
+    public getChampions(region:string, options?:ChampionListOptions, callback?:(error:Error, data:api.lolStaticData.ChampionListDto)=>void):Promise<api.lolStaticData.ChampionListDto>;
     /**
      * @inheritdoc
      */
-    public getChampions(region:string, locale:string, version:string, dataById:boolean, champData:string, callback?:(error:Error, data:api.lolStaticData.ChampionListDto)=>void):void {
+    public getChampions(region:string, locale:string, version:string, dataById:boolean, champData:string|ChampionDataTag[], callback?:(error:Error, data:api.lolStaticData.ChampionListDto)=>void):Promise<api.lolStaticData.ChampionListDto>;
+    public getChampions(region:string, locale?:any, version?:any, dataById?:any, champData?:any, callback?:any):Promise<api.lolStaticData.ChampionListDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:ChampionListOptions = locale;
+            return this.getChampions(region, options.locale, options.version, options.dataById, options.champData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/champion`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
@@ -353,182 +554,260 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
             "dataById": dataById,
             "champData": champData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.ChampionListDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.ChampionListDto>("getChampions", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a champion by its id, with the optional parameters given in an object.
+     */
+    public getChampionById(region:string, id:number, options?:ChampionOptions, callback?:(error:Error, data:api.lolStaticData.ChampionDto)=>void):Promise<api.lolStaticData.ChampionDto>;
     /**
      * @inheritdoc
      */
-    public getChampionById(region:string, id:number, locale:string, version:string, champData:string, callback?:(error:Error, data:api.lolStaticData.ChampionDto)=>void):void {
+    public getChampionById(region:string, id:number, locale:string, version:string, champData:string|ChampionDataTag[], callback?:(error:Error, data:api.lolStaticData.ChampionDto)=>void):Promise<api.lolStaticData.ChampionDto>;
+    public getChampionById(region:string, id:number, locale?:any, version?:any, champData?:any, callback?:any):Promise<api.lolStaticData.ChampionDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:ChampionOptions = locale;
+            return this.getChampionById(region, id, options.locale, options.version, options.champData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/champion/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "champData": champData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.ChampionDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.ChampionDto>("getChampionById", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the item list, with the optional parameters given in an object.
+     */
+    public getItems(region:string, options?:ItemListOptions, callback?:(error:Error, data:api.lolStaticData.ItemListDto)=>void):Promise<api.lolStaticData.ItemListDto>;
     /**
      * @inheritdoc
      */
-    public getItems(region:string, locale:string, version:string, itemListData:string, callback?:(error:Error, data:api.lolStaticData.ItemListDto)=>void):void {
+    public getItems(region:string, locale:string, version:string, itemListData:string|ItemListDataTag[], callback?:(error:Error, data:api.lolStaticData.ItemListDto)=>void):Promise<api.lolStaticData.ItemListDto>;
+    public getItems(region:string, locale?:any, version?:any, itemListData?:any, callback?:any):Promise<api.lolStaticData.ItemListDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:ItemListOptions = locale;
+            return this.getItems(region, options.locale, options.version, options.itemListData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/item`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "itemListData": itemListData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.ItemListDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.ItemListDto>("getItems", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves an item by its id, with the optional parameters given in an object.
+     */
+    public getItemById(region:string, id:number, options?:ItemOptions, callback?:(error:Error, data:api.lolStaticData.ItemDto)=>void):Promise<api.lolStaticData.ItemDto>;
     /**
      * @inheritdoc
      */
-    public getItemById(region:string, id:number, locale:string, version:string, itemData:string, callback?:(error:Error, data:api.lolStaticData.ItemDto)=>void):void {
+    public getItemById(region:string, id:number, locale:string, version:string, itemData:string|ItemDataTag[], callback?:(error:Error, data:api.lolStaticData.ItemDto)=>void):Promise<api.lolStaticData.ItemDto>;
+    public getItemById(region:string, id:number, locale?:any, version?:any, itemData?:any, callback?:any):Promise<api.lolStaticData.ItemDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:ItemOptions = locale;
+            return this.getItemById(region, id, options.locale, options.version, options.itemData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/item/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "itemData": itemData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.ItemDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.ItemDto>("getItemById", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the language strings, with the optional parameters given in an object.
+     */
+    public getLanguageStrings(region:string, options?:StaticDataOptions, callback?:(error:Error, data:api.lolStaticData.LanguageStringsDto)=>void):Promise<api.lolStaticData.LanguageStringsDto>;
     /**
      * @inheritdoc
      */
-    public getLanguageStrings(region:string, locale:string, version:string, callback?:(error:Error, data:api.lolStaticData.LanguageStringsDto)=>void):void {
+    public getLanguageStrings(region:string, locale:string, version:string, callback?:(error:Error, data:api.lolStaticData.LanguageStringsDto)=>void):Promise<api.lolStaticData.LanguageStringsDto>;
+    public getLanguageStrings(region:string, locale?:any, version?:any, callback?:any):Promise<api.lolStaticData.LanguageStringsDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:StaticDataOptions = locale;
+            return this.getLanguageStrings(region, options.locale, options.version, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/language-strings`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.LanguageStringsDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.LanguageStringsDto>("getLanguageStrings", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLanguages(region:string, callback?:(error:Error, data:string[])=>void):void {
+    public getLanguages(region:string, callback?:(error:Error, data:string[])=>void):Promise<string[]> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/languages`;
         var query = {};
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<string[]>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<string[]>("getLanguages", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the map data, with the optional parameters given in an object.
+     */
+    public getMaps(region:string, options?:StaticDataOptions, callback?:(error:Error, data:api.lolStaticData.MapDataDto)=>void):Promise<api.lolStaticData.MapDataDto>;
     /**
      * @inheritdoc
      */
-    public getMaps(region:string, locale:string, version:string, callback?:(error:Error, data:api.lolStaticData.MapDataDto)=>void):void {
+    public getMaps(region:string, locale:string, version:string, callback?:(error:Error, data:api.lolStaticData.MapDataDto)=>void):Promise<api.lolStaticData.MapDataDto>;
+    public getMaps(region:string, locale?:any, version?:any, callback?:any):Promise<api.lolStaticData.MapDataDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:StaticDataOptions = locale;
+            return this.getMaps(region, options.locale, options.version, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/map`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.MapDataDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.MapDataDto>("getMaps", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the mastery list, with the optional parameters given in an object.
+     */
+    public getMasteries(region:string, options?:MasteryListOptions, callback?:(error:Error, data:api.lolStaticData.MasteryListDto)=>void):Promise<api.lolStaticData.MasteryListDto>;
     /**
      * @inheritdoc
      */
-    public getMasteries(region:string, locale:string, version:string, masteryListData:string, callback?:(error:Error, data:api.lolStaticData.MasteryListDto)=>void):void {
+    public getMasteries(region:string, locale:string, version:string, masteryListData:string|MasteryListDataTag[], callback?:(error:Error, data:api.lolStaticData.MasteryListDto)=>void):Promise<api.lolStaticData.MasteryListDto>;
+    public getMasteries(region:string, locale?:any, version?:any, masteryListData?:any, callback?:any):Promise<api.lolStaticData.MasteryListDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:MasteryListOptions = locale;
+            return this.getMasteries(region, options.locale, options.version, options.masteryListData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/mastery`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "masteryListData": masteryListData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.MasteryListDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.MasteryListDto>("getMasteries", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a mastery by its id, with the optional parameters given in an object.
+     */
+    public getMasteryById(region:string, id:number, options?:MasteryOptions, callback?:(error:Error, data:api.lolStaticData.MasteryDto)=>void):Promise<api.lolStaticData.MasteryDto>;
     /**
      * @inheritdoc
      */
-    public getMasteryById(region:string, id:number, locale:string, version:string, masteryData:string, callback?:(error:Error, data:api.lolStaticData.MasteryDto)=>void):void {
+    public getMasteryById(region:string, id:number, locale:string, version:string, masteryData:string|MasteryDataTag[], callback?:(error:Error, data:api.lolStaticData.MasteryDto)=>void):Promise<api.lolStaticData.MasteryDto>;
+    public getMasteryById(region:string, id:number, locale?:any, version?:any, masteryData?:any, callback?:any):Promise<api.lolStaticData.MasteryDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:MasteryOptions = locale;
+            return this.getMasteryById(region, id, options.locale, options.version, options.masteryData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/mastery/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "masteryData": masteryData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.MasteryDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.MasteryDto>("getMasteryById", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getRealm(region:string, callback?:(error:Error, data:api.lolStaticData.RealmDto)=>void):void {
+    public getRealm(region:string, callback?:(error:Error, data:api.lolStaticData.RealmDto)=>void):Promise<api.lolStaticData.RealmDto> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/realm`;
         var query = {};
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.RealmDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.RealmDto>("getRealm", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the rune list, with the optional parameters given in an object.
+     */
+    public getRunes(region:string, options?:RuneListOptions, callback?:(error:Error, data:api.lolStaticData.RuneListDto)=>void):Promise<api.lolStaticData.RuneListDto>;
     /**
      * @inheritdoc
      */
-    public getRunes(region:string, locale:string, version:string, runeListData:string, callback?:(error:Error, data:api.lolStaticData.RuneListDto)=>void):void {
+    public getRunes(region:string, locale:string, version:string, runeListData:string|RuneListDataTag[], callback?:(error:Error, data:api.lolStaticData.RuneListDto)=>void):Promise<api.lolStaticData.RuneListDto>;
+    public getRunes(region:string, locale?:any, version?:any, runeListData?:any, callback?:any):Promise<api.lolStaticData.RuneListDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:RuneListOptions = locale;
+            return this.getRunes(region, options.locale, options.version, options.runeListData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/rune`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "runeListData": runeListData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.RuneListDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.RuneListDto>("getRunes", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a rune by its id, with the optional parameters given in an object.
+     */
+    public getRuneById(region:string, id:number, options?:RuneOptions, callback?:(error:Error, data:api.lolStaticData.RuneDto)=>void):Promise<api.lolStaticData.RuneDto>;
     /**
      * @inheritdoc
      */
-    public getRuneById(region:string, id:number, locale:string, version:string, runeData:string, callback?:(error:Error, data:api.lolStaticData.RuneDto)=>void):void {
+    public getRuneById(region:string, id:number, locale:string, version:string, runeData:string|RuneDataTag[], callback?:(error:Error, data:api.lolStaticData.RuneDto)=>void):Promise<api.lolStaticData.RuneDto>;
+    public getRuneById(region:string, id:number, locale?:any, version?:any, runeData?:any, callback?:any):Promise<api.lolStaticData.RuneDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:RuneOptions = locale;
+            return this.getRuneById(region, id, options.locale, options.version, options.runeData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/rune/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "runeData": runeData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.RuneDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.RuneDto>("getRuneById", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the summoner spell list, with the optional parameters given in an object.
+     */
+    public getSummonerSpells(region:string, options?:SummonerSpellListOptions, callback?:(error:Error, data:api.lolStaticData.SummonerSpellListDto)=>void):Promise<api.lolStaticData.SummonerSpellListDto>;
     /**
      * @inheritdoc
      */
-    public getSummonerSpells(region:string, locale:string, version:string, dataById:boolean, spellData:string, callback?:(error:Error, data:api.lolStaticData.SummonerSpellListDto)=>void):void {
+    public getSummonerSpells(region:string, locale:string, version:string, dataById:boolean, spellData:string|SpellDataTag[], callback?:(error:Error, data:api.lolStaticData.SummonerSpellListDto)=>void):Promise<api.lolStaticData.SummonerSpellListDto>;
+    public getSummonerSpells(region:string, locale?:any, version?:any, dataById?:any, spellData?:any, callback?:any):Promise<api.lolStaticData.SummonerSpellListDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:SummonerSpellListOptions = locale;
+            return this.getSummonerSpells(region, options.locale, options.version, options.dataById, options.spellData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/summoner-spell`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
@@ -536,38 +815,43 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
             "dataById": dataById,
             "spellData": spellData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.SummonerSpellListDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.SummonerSpellListDto>("getSummonerSpells", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a summoner spell by its id, with the optional parameters given in an object.
+     */
+    public getSummonerSpellById(region:string, id:number, options?:SummonerSpellOptions, callback?:(error:Error, data:api.lolStaticData.SummonerSpellDto)=>void):Promise<api.lolStaticData.SummonerSpellDto>;
     /**
      * @inheritdoc
      */
-    public getSummonerSpellById(region:string, id:number, locale:string, version:string, spellData:string, callback?:(error:Error, data:api.lolStaticData.SummonerSpellDto)=>void):void {
+    public getSummonerSpellById(region:string, id:number, locale:string, version:string, spellData:string|SpellDataTag[], callback?:(error:Error, data:api.lolStaticData.SummonerSpellDto)=>void):Promise<api.lolStaticData.SummonerSpellDto>;
+    public getSummonerSpellById(region:string, id:number, locale?:any, version?:any, spellData?:any, callback?:any):Promise<api.lolStaticData.SummonerSpellDto> {
+        if (LeagueTypenode.isOptions(locale)) {
+            var options:SummonerSpellOptions = locale;
+            return this.getSummonerSpellById(region, id, options.locale, options.version, options.spellData, version);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/summoner-spell/${id}`;
         var query = LeagueTypenode.encodeProperties({
             "locale": locale,
             "version": version,
             "spellData": spellData
         });
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStaticData.SummonerSpellDto>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<api.lolStaticData.SummonerSpellDto>("getSummonerSpellById", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getVersions(region:string, callback?:(error:Error, data:string[])=>void):void {
+    public getVersions(region:string, callback?:(error:Error, data:string[])=>void):Promise<string[]> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/static-data/${region}/v1.2/versions`;
         var query = {};
-        var reqUrl = this.apiUrl("global", path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<string[]>(error, json, headers, callback);
-        });
+        var reqUrl = this.apiUrl(region, path, query);
+        return this.apiRequest<string[]>("getVersions", reqUrl, 'GET', '', callback);
     }
 
     // lol-status
@@ -575,33 +859,18 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getShards(callback?:(error:Error, data:api.lolStatus.Shard[])=>void):void {
-        var reqUrl = {
-            protocol: 'http',
-            slashes: this.baseConfig.slashes,
-            hostname: `status.leagueoflegends.com`,
-            port: this.baseConfig.port,
-            pathname: `/shards`
-        };
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStatus.Shard[]>(error, json, headers, callback);
-        }, false);
+    public getShards(callback?:(error:Error, data:api.lolStatus.Shard[])=>void):Promise<api.lolStatus.Shard[]> {
+        var reqUrl = this.endpointUrl("global", `/shards`, {});
+        return this.apiRequest<api.lolStatus.Shard[]>("getShards", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getShard(region:string, callback?:(error:Error, data:api.lolStatus.ShardStatus)=>void):void {
-        var reqUrl = {
-            protocol: 'http',
-            slashes: this.baseConfig.slashes,
-            hostname: `status.leagueoflegends.com`,
-            port: this.baseConfig.port,
-            pathname: `/shards/${region}`
-        };
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.lolStatus.ShardStatus>(error, json, headers, callback);
-        }, false);
+    public getShard(region:string, callback?:(error:Error, data:api.lolStatus.ShardStatus)=>void):Promise<api.lolStatus.ShardStatus> {
+        region = Regions.parseRegion(region);
+        var reqUrl = this.endpointUrl("global", `/shards/${region}`, {});
+        return this.apiRequest<api.lolStatus.ShardStatus>("getShard", reqUrl, 'GET', '', callback);
     }
 
     // match
@@ -609,50 +878,75 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getMatchIdsByTournamentCode(region:string, tournamentCode:string, callback?:(error:Error, data:number[])=>void):void {
+    public getMatchIdsByTournamentCode(region:string, tournamentCode:string, callback?:(error:Error, data:number[])=>void):Promise<number[]> {
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.2/match/by-tournament/${tournamentCode}/ids`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<number[]>(error, json, headers, callback);
-        });
+        return this.apiRequest<number[]>("getMatchIdsByTournamentCode", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a match played with a tournament code, with the other parameters given in an object.
+     */
+    public getMatchByIdAndTournamentCode(region:string, matchId:number, options:TournamentMatchOptions, callback?:(error:Error, data:api.match.MatchDetail)=>void):Promise<api.match.MatchDetail>;
     /**
      * @inheritdoc
      */
-    public getMatchByIdAndTournamentCode(region:string, matchId:number, tournamentCode:string, includeTimeline:boolean, callback?:(error:Error, data:api.match.MatchDetail)=>void):void {
+    public getMatchByIdAndTournamentCode(region:string, matchId:number, tournamentCode:string, includeTimeline:boolean, callback?:(error:Error, data:api.match.MatchDetail)=>void):Promise<api.match.MatchDetail>;
+    public getMatchByIdAndTournamentCode(region:string, matchId:number, tournamentCode:any, includeTimeline?:any, callback?:any):Promise<api.match.MatchDetail> {
+        if (LeagueTypenode.isOptions(tournamentCode)) {
+            var options:TournamentMatchOptions = tournamentCode;
+            return this.getMatchByIdAndTournamentCode(region, matchId, options.tournamentCode, options.includeTimeline, includeTimeline);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.2/match/for-tournament/${matchId}`;
         var query = LeagueTypenode.encodeProperties({
             "tournamentCode": tournamentCode,
             "includeTimeline": includeTimeline
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.match.MatchDetail>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.match.MatchDetail>("getMatchByIdAndTournamentCode", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves a match by its id, with the optional parameters given in an object.
+     */
+    public getMatchById(region:string, matchId:number, options?:MatchOptions, callback?:(error:Error, data:api.match.MatchDetail)=>void):Promise<api.match.MatchDetail>;
     /**
      * @inheritdoc
      */
-    public getMatchById(region:string, matchId:number, includeTimeline:boolean, callback?:(error:Error, data:api.match.MatchDetail)=>void):void {
+    public getMatchById(region:string, matchId:number, includeTimeline:boolean, callback?:(error:Error, data:api.match.MatchDetail)=>void):Promise<api.match.MatchDetail>;
+    public getMatchById(region:string, matchId:number, includeTimeline?:any, callback?:any):Promise<api.match.MatchDetail> {
+        if (LeagueTypenode.isOptions(includeTimeline)) {
+            var options:MatchOptions = includeTimeline;
+            return this.getMatchById(region, matchId, options.includeTimeline, callback);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.2/match/${matchId}`;
         var query = LeagueTypenode.encodeProperties({
             "includeTimeline": includeTimeline
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.match.MatchDetail>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.match.MatchDetail>("getMatchById", reqUrl, 'GET', '', callback);
     }
 
     // matchlist
 
+    /**
+     * Retrieves the match list of a summoner, with the filters given in an object.
+     */
+    public getMatchesBySummonerId(region:string, summonerId:number, options?:MatchListOptions, callback?:(error:Error, data:api.matchlist.MatchList)=>void):Promise<api.matchlist.MatchList>;
     /**
      * @inheritdoc
      */
-    public getMatchesBySummonerId(region:string, summonerId:number, championIds:string, rankedQueues:string, seasons:string, beginTime:number, endTime:number, beginIndex:number, endIndex:number, callback?:(error:Error, data:api.matchlist.MatchList)=>void):void {
+    public getMatchesBySummonerId(region:string, summonerId:number, championIds:string|number[], rankedQueues:string|RankedQueue[], seasons:string|Season[], beginTime:number|Date, endTime:number|Date, beginIndex:number, endIndex:number, callback?:(error:Error, data:api.matchlist.MatchList)=>void):Promise<api.matchlist.MatchList>;
+    public getMatchesBySummonerId(region:string, summonerId:number, championIds?:any, rankedQueues?:any, seasons?:any, beginTime?:any, endTime?:any, beginIndex?:any, endIndex?:any, callback?:any):Promise<api.matchlist.MatchList> {
+        if (LeagueTypenode.isOptions(championIds)) {
+            var options:MatchListOptions = championIds;
+            return this.getMatchesBySummonerId(region, summonerId, options.championIds, options.rankedQueues, options.seasons, options.beginTime, options.endTime, options.beginIndex, options.endIndex, rankedQueues);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v2.2/matchlist/by-summoner/${summonerId}`;
         var query = LeagueTypenode.encodeProperties({
             "championIds": championIds,
@@ -664,39 +958,65 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
             "endIndex": endIndex
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.matchlist.MatchList>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.matchlist.MatchList>("getMatchesBySummonerId", reqUrl, 'GET', '', callback);
+    }
+
+    /**
+     * Goes through the whole match list of a summoner, page by page, as an async iterable.
+     *
+     * @param region The region of the summoner
+     * @param summonerId The ID of the summoner
+     * @param options Filters and paging of the matches
+     * @returns {MatchHistory}
+     */
+    public matchHistory(region:string, summonerId:number, options:MatchHistoryOptions = {}):MatchHistory {
+        return new MatchHistory(this, Regions.parseRegion(region), summonerId, options);
     }
 
     // stats
 
+    /**
+     * Retrieves the ranked stats of a summoner, with the optional parameters given in an object.
+     */
+    public getRankedBySummonerId(region:string, summonerId:number, options?:StatsOptions, callback?:(error:Error, data:api.stats.RankedStatsDto)=>void):Promise<api.stats.RankedStatsDto>;
     /**
      * @inheritdoc
      */
-    public getRankedBySummonerId(region:string, summonerId:number, season:string, callback?:(error:Error, data:api.stats.RankedStatsDto)=>void):void {
+    public getRankedBySummonerId(region:string, summonerId:number, season:string, callback?:(error:Error, data:api.stats.RankedStatsDto)=>void):Promise<api.stats.RankedStatsDto>;
+    public getRankedBySummonerId(region:string, summonerId:number, season?:any, callback?:any):Promise<api.stats.RankedStatsDto> {
+        if (LeagueTypenode.isOptions(season)) {
+            var options:StatsOptions = season;
+            return this.getRankedBySummonerId(region, summonerId, options.season, callback);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v1.3/stats/by-summoner/${summonerId}/ranked`;
         var query = LeagueTypenode.encodeProperties({
             "season": season
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.stats.RankedStatsDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.stats.RankedStatsDto>("getRankedBySummonerId", reqUrl, 'GET', '', callback);
     }
 
+    /**
+     * Retrieves the stats summary of a summoner, with the optional parameters given in an object.
+     */
+    public getSummaryBySummonerId(region:string, summonerId:number, options?:StatsOptions, callback?:(error:Error, data:api.stats.PlayerStatsSummaryListDto)=>void):Promise<api.stats.PlayerStatsSummaryListDto>;
     /**
      * @inheritdoc
      */
-    public getSummaryBySummonerId(region:string, summonerId:number, season:string, callback?:(error:Error, data:api.stats.PlayerStatsSummaryListDto)=>void):void {
+    public getSummaryBySummonerId(region:string, summonerId:number, season:string, callback?:(error:Error, data:api.stats.PlayerStatsSummaryListDto)=>void):Promise<api.stats.PlayerStatsSummaryListDto>;
+    public getSummaryBySummonerId(region:string, summonerId:number, season?:any, callback?:any):Promise<api.stats.PlayerStatsSummaryListDto> {
+        if (LeagueTypenode.isOptions(season)) {
+            var options:StatsOptions = season;
+            return this.getSummaryBySummonerId(region, summonerId, options.season, callback);
+        }
+        region = Regions.parseRegion(region);
         var path = `/api/lol/${region}/v1.3/stats/by-summoner/${summonerId}/summary`;
         var query = LeagueTypenode.encodeProperties({
             "season": season
         });
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.stats.PlayerStatsSummaryListDto>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.stats.PlayerStatsSummaryListDto>("getSummaryBySummonerId", reqUrl, 'GET', '', callback);
     }
 
     // summoner
@@ -704,61 +1024,58 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getSummonerByNames(region:string, summonerNames:string, callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):void {
-        var path = `/api/lol/${region}/v1.4/summoner/by-name/${encodeURIComponent(summonerNames)}`;
+    public getSummonerByNames(region:string, summonerNames:string|string[], callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):Promise<{[s:string]:api.summoner.SummonerDto}> {
+        region = Regions.parseRegion(region);
+        // Each name is encoded on its own, so that the commas separating them stay as they are
+        var names = Array.isArray(summonerNames) ? summonerNames : summonerNames.split(",");
+        var path = `/api/lol/${region}/v1.4/summoner/by-name/${names.map((name) => encodeURIComponent(name)).join(",")}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.summoner.SummonerDto}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.summoner.SummonerDto}>("getSummonerByNames", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getSummonerByIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):void {
-        var path = `/api/lol/${region}/v1.4/summoner/${summonerIds}`;
+    public getSummonerByIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):Promise<{[s:string]:api.summoner.SummonerDto}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v1.4/summoner/${LeagueTypenode.list(summonerIds)}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.summoner.SummonerDto}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.summoner.SummonerDto}>("getSummonerByIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getMasteryPagesBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.summoner.MasteryPagesDto})=>void):void {
-        var path = `/api/lol/${region}/v1.4/summoner/${summonerIds}/masteries`;
+    public getMasteryPagesBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.summoner.MasteryPagesDto})=>void):Promise<{[s:string]:api.summoner.MasteryPagesDto}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v1.4/summoner/${LeagueTypenode.list(summonerIds)}/masteries`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.summoner.MasteryPagesDto}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.summoner.MasteryPagesDto}>("getMasteryPagesBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getNameBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:string})=>void):void {
-        var path = `/api/lol/${region}/v1.4/summoner/${summonerIds}/name`;
+    public getNameBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:string})=>void):Promise<{[s:string]:string}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v1.4/summoner/${LeagueTypenode.list(summonerIds)}/name`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:string}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:string}>("getNameBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getRunePagesBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.summoner.RunePagesDto})=>void):void {
-        var path = `/api/lol/${region}/v1.4/summoner/${summonerIds}/runes`;
+    public getRunePagesBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.summoner.RunePagesDto})=>void):Promise<{[s:string]:api.summoner.RunePagesDto}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v1.4/summoner/${LeagueTypenode.list(summonerIds)}/runes`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.summoner.RunePagesDto}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.summoner.RunePagesDto}>("getRunePagesBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     // team
@@ -766,25 +1083,23 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public getTeamsBySummonerIds(region:string, summonerIds:string, callback?:(error:Error, data:{[s:string]:api.team.TeamDto[]})=>void):void {
-        var path = `/api/lol/${region}/v2.4/team/by-summoner/${summonerIds}`;
+    public getTeamsBySummonerIds(region:string, summonerIds:string|number[], callback?:(error:Error, data:{[s:string]:api.team.TeamDto[]})=>void):Promise<{[s:string]:api.team.TeamDto[]}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.4/team/by-summoner/${LeagueTypenode.list(summonerIds)}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.team.TeamDto[]}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.team.TeamDto[]}>("getTeamsBySummonerIds", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getTeamsByTeamIds(region:string, teamIds:string, callback?:(error:Error, data:{[s:string]:api.team.TeamDto})=>void):void {
-        var path = `/api/lol/${region}/v2.4/team/${teamIds}`;
+    public getTeamsByTeamIds(region:string, teamIds:string|string[], callback?:(error:Error, data:{[s:string]:api.team.TeamDto})=>void):Promise<{[s:string]:api.team.TeamDto}> {
+        region = Regions.parseRegion(region);
+        var path = `/api/lol/${region}/v2.4/team/${LeagueTypenode.list(teamIds)}`;
         var query = {};
         var reqUrl = this.apiUrl(region, path, query);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<{[s:string]:api.team.TeamDto}>(error, json, headers, callback);
-        });
+        return this.apiRequest<{[s:string]:api.team.TeamDto}>("getTeamsByTeamIds", reqUrl, 'GET', '', callback);
     }
 
     // tournament-provider
@@ -792,7 +1107,7 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
     /**
      * @inheritdoc
      */
-    public createTournamentCodesById(tournamentId:number, count:number, body:api.tournamentProvider.TournamentCodeParameters, callback?:(error:Error, data:string[])=>void):void {
+    public createTournamentCodesById(tournamentId:number, count:number, body:api.tournamentProvider.TournamentCodeParameters, callback?:(error:Error, data:string[])=>void):Promise<string[]> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/code`;
         var query = LeagueTypenode.encodeProperties({
@@ -800,74 +1115,162 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
             "count": count
         });
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'POST', JSON.stringify(body), (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<string[]>(error, json, headers, callback);
-        });
+        return this.apiRequest<string[]>("createTournamentCodesById", reqUrl, 'POST', JSON.stringify(body), callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getTournamentByCode(tournamentCode:string, callback?:(error:Error, data:api.tournamentProvider.TournamentCodeDTO)=>void):void {
+    public getTournamentByCode(tournamentCode:string, callback?:(error:Error, data:api.tournamentProvider.TournamentCodeDTO)=>void):Promise<api.tournamentProvider.TournamentCodeDTO> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/code/${tournamentCode}`;
         var query = {};
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.tournamentProvider.TournamentCodeDTO>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.tournamentProvider.TournamentCodeDTO>("getTournamentByCode", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public updateTournamentByCode(tournamentCode:string, body:api.tournamentProvider.TournamentCodeUpdateParameters, callback?:(error:Error, data:void)=>void):void {
+    public updateTournamentByCode(tournamentCode:string, body:api.tournamentProvider.TournamentCodeUpdateParameters, callback?:(error:Error, data:void)=>void):Promise<void> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/code/${tournamentCode}`;
         var query = {};
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'PUT', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<void>(error, json, headers, callback);
-        });
+        return this.apiRequest<void>("updateTournamentByCode", reqUrl, 'PUT', JSON.stringify(body), callback);
     }
 
     /**
      * @inheritdoc
      */
-    public getLobbyEventsByTournamentCode(tournamentCode:string, callback?:(error:Error, data:api.tournamentProvider.LobbyEventDTOWrapper)=>void):void {
+    public getLobbyEventsByTournamentCode(tournamentCode:string, callback?:(error:Error, data:api.tournamentProvider.LobbyEventDTOWrapper)=>void):Promise<api.tournamentProvider.LobbyEventDTOWrapper> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/lobby/events/by-code/${tournamentCode}`;
         var query = {};
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'GET', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<api.tournamentProvider.LobbyEventDTOWrapper>(error, json, headers, callback);
-        });
+        return this.apiRequest<api.tournamentProvider.LobbyEventDTOWrapper>("getLobbyEventsByTournamentCode", reqUrl, 'GET', '', callback);
     }
 
     /**
      * @inheritdoc
      */
-    public createTournamentProvider(body:api.tournamentProvider.ProviderRegistrationParameters, callback?:(error:Error, data:number)=>void):void {
+    public createTournamentProvider(body:api.tournamentProvider.ProviderRegistrationParameters, callback?:(error:Error, data:number)=>void):Promise<number> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/provider`;
         var query = {};
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'POST', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<number>(error, json, headers, callback);
-        });
+        return this.apiRequest<number>("createTournamentProvider", reqUrl, 'POST', JSON.stringify(body), callback);
     }
 
     /**
      * @inheritdoc
      */
-    public createTournament(body:api.tournamentProvider.TournamentRegistrationParameters, callback?:(error:Error, data:number)=>void):void {
+    public createTournament(body:api.tournamentProvider.TournamentRegistrationParameters, callback?:(error:Error, data:number)=>void):Promise<number> {
         this.needsTournamentsKey();
         var path = `/tournament/public/v1/tournament`;
         var query = {};
         var reqUrl = this.apiUrl("global", path, query, true);
-        this.apiCall(reqUrl, 'POST', '', (error:Error, json:string, headers:Object) => {
-            LeagueTypenode.checkAndCast<number>(error, json, headers, callback);
-        });
+        return this.apiRequest<number>("createTournament", reqUrl, 'POST', JSON.stringify(body), callback);
+    }
+
+    // Batched operations
+
+    /**
+     * Gets summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the summoners by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getSummonerByIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):Promise<{[s:string]:api.summoner.SummonerDto}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.summoner.SummonerDto>(summonerIds, LeagueTypenode.summonerBatchSize, (ids, callback) => {
+            this.getSummonerByIds(region, ids, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets summoners by their names, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerNames Names of the summoners
+     * @param callback Called with the summoners by unique name. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getSummonerByNamesInBatches(region:string, summonerNames:string[], callback?:(error:Error, data:{[s:string]:api.summoner.SummonerDto})=>void):Promise<{[s:string]:api.summoner.SummonerDto}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.summoner.SummonerDto>(summonerNames, LeagueTypenode.summonerBatchSize, (names, callback) => {
+            this.getSummonerByNames(region, names, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets the names of summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the names by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getNameBySummonerIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:string})=>void):Promise<{[s:string]:string}> {
+        region = Regions.parseRegion(region);
+        return this.batched<string>(summonerIds, LeagueTypenode.summonerBatchSize, (ids, callback) => {
+            this.getNameBySummonerIds(region, ids, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets the rune pages of summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the rune pages by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getRunePagesBySummonerIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:api.summoner.RunePagesDto})=>void):Promise<{[s:string]:api.summoner.RunePagesDto}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.summoner.RunePagesDto>(summonerIds, LeagueTypenode.summonerBatchSize, (ids, callback) => {
+            this.getRunePagesBySummonerIds(region, ids, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets the mastery pages of summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the mastery pages by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getMasteryPagesBySummonerIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:api.summoner.MasteryPagesDto})=>void):Promise<{[s:string]:api.summoner.MasteryPagesDto}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.summoner.MasteryPagesDto>(summonerIds, LeagueTypenode.summonerBatchSize, (ids, callback) => {
+            this.getMasteryPagesBySummonerIds(region, ids, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets the leagues of summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the leagues by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getLeagueBySummonerIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.league.LeagueDto[]>(summonerIds, LeagueTypenode.leagueBatchSize, (ids, callback) => {
+            this.getLeagueBySummonerIds(region, ids, callback);
+        }, callback);
+    }
+
+    /**
+     * Gets the league entries of summoners by their ids, in as many requests as needed.
+     *
+     * @param region Region where to retrieve the data
+     * @param summonerIds Ids of the summoners
+     * @param callback Called with the league entries by id. If some batches fail, called with a BatchError and the data of the other batches.
+     */
+    public getLeagueEntryBySummonerIdsInBatches(region:string, summonerIds:number[], callback?:(error:Error, data:{[s:string]:api.league.LeagueDto[]})=>void):Promise<{[s:string]:api.league.LeagueDto[]}> {
+        region = Regions.parseRegion(region);
+        return this.batched<api.league.LeagueDto[]>(summonerIds, LeagueTypenode.leagueBatchSize, (ids, callback) => {
+            this.getLeagueEntryBySummonerIds(region, ids, callback);
+        }, callback);
     }
 
     // Public utility methods
@@ -892,74 +1295,446 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
         }
     }
 
+    /**
+     * Calls an operation on batches of ids, and merges the data of every batch.
+     *
+     * Batches answered with a 404 error contain no known id, and don't count as failures.
+     */
+    private batched<T>(ids:(string|number)[], size:number, operation:(ids:string, callback:(error:Error, data:{[s:string]:T})=>void)=>void, callback?:(error:Error, data:{[s:string]:T})=>void):Promise<{[s:string]:T}> {
+        if (!callback) {
+            return Promises.fromCallback<{[s:string]:T}>((callback) => this.batched<T>(ids, size, operation, callback));
+        }
+        var unique = ids.map(String).filter((id, i, all) => all.indexOf(id) == i);
+        var batches:string[][] = [];
+        for (var i = 0; i < unique.length; i += size) {
+            batches.push(unique.slice(i, i + size));
+        }
+        var data:{[s:string]:T} = {};
+        var failures:{ids:string[], error:Error}[] = [];
+        var remaining = batches.length;
+        if (remaining == 0) {
+            callback(null, data);
+            return;
+        }
+        batches.forEach((batch) => {
+            operation(batch.join(","), (error:Error, batchData:{[s:string]:T}) => {
+                if (error && (<ApiError>error).code != 404) {
+                    failures.push({ids: batch, error: error});
+                } else if (!error) {
+                    for (var id in batchData) {
+                        data[id] = batchData[id];
+                    }
+                }
+                if (--remaining == 0) {
+                    var batchError = failures.length == 0 ? null :
+                        new BatchError(`${failures.length} of ${batches.length} batches failed`, data, failures);
+                    callback(batchError, data);
+                }
+            });
+        });
+    }
+
+    /**
+     * Removes the parameters that aren't given, joins the lists with commas and turns the dates into milliseconds. The
+     * values are encoded when the URL is built, only once, so that lists such as "1,2" reach the server as they are.
+     */
     private static encodeProperties(query:Object) {
         for (var key in query) {
-            if (query[key] == null) {
+            if (query[key] == null || (Array.isArray(query[key]) && query[key].length == 0)) {
                 delete query[key];
-            } else {
-                query[key] = encodeURIComponent(query[key]);
+            } else if (Array.isArray(query[key])) {
+                query[key] = LeagueTypenode.list(query[key]);
+            } else if (query[key] instanceof Date) {
+                query[key] = query[key].getTime();
             }
         }
         return query;
     }
 
-    private apiUrl(region:string, path:string, query:Object, tournaments:boolean = false):url.Url {
+    /**
+     * Joins a list of ids or names with commas, as the API expects them
+     */
+    private static list(values:string|(string|number)[]):string {
+        return Array.isArray(values) ? values.join(",") : <string>values;
+    }
+
+    /**
+     * Whether a parameter is an object holding the parameters of an operation, instead of the first positional one
+     */
+    private static isOptions(value:any):boolean {
+        return value != null && typeof value === "object" && !Array.isArray(value);
+    }
+
+    /**
+     * Identifies the resource a request asks for, regardless of the key used.
+     */
+    private static resource(reqUrl:url.Url):string {
+        return `${reqUrl.hostname}${reqUrl.pathname}${reqUrl.query || ''}`;
+    }
+
+    /**
+     * Builds the URL of a request authenticated with a key. The URL never contains the key, which is only added when
+     * the request is sent, as it depends on the keys in rotation then.
+     */
+    private apiUrl(region:string, path:string, query:Object, tournaments:boolean = false):ApiUrl {
+        var reqUrl = this.endpointUrl(region, path, query);
+        reqUrl.keyType = tournaments ? "tournaments" : "standard";
+        // Calls to the static data endpoints don't count against the rate limit
+        reqUrl.bucket = tournaments ? `tournaments:${region}` : (region == "global" || ResponseCache.family(path) == "lol-static-data" ? null : region);
+        return reqUrl;
+    }
+
+    /**
+     * Builds the URL of a request, sent where the endpoint family of its path is configured to go.
+     */
+    private endpointUrl(region:string, path:string, query:Object):ApiUrl {
         var result = "";
-        query["api_key"] = (tournaments ? this.tournamentsKey.value : this.key.value);
         for (var key in query) {
             if (result != "") {
                 result += "&";
             }
             result += key + "=" + encodeURIComponent(query[key]);
         }
+        var endpoint = this.endpoints.resolve(ResponseCache.family(path), region);
         return {
-            protocol: this.baseConfig.protocol,
-            slashes: this.baseConfig.slashes,
-            hostname: `${region}.api.pvp.net`,
-            port: this.baseConfig.port,
+            protocol: endpoint.protocol,
+            slashes: true,
+            hostname: endpoint.hostname,
+            port: endpoint.port != null ? String(endpoint.port) : undefined,
             pathname: path,
-            query: `?${result}`
+            query: result != "" ? `?${result}` : "",
+            region: region
         };
     }
 
-    private apiCall(reqUrl:url.Url, method:string = 'GET', content?:string, callback?:(error:Error, data:string, headers:Object)=>void, useHttps:boolean = true) {
-        var options:https.RequestOptions = {
-            hostname: reqUrl.hostname,
-            path: reqUrl.pathname + (reqUrl.query ? reqUrl.query : ''),
-            method: method,
-            headers: {
-                'Content-Type': 'application/json; charset=UTF-8',
-                'Content-Length': content.length
+    /**
+     * Calls the API and casts its answer.
+     *
+     * If a callback is given, it is called with the result and nothing is returned. Otherwise, a Promise is returned.
+     */
+    private apiRequest<T>(operation:string, reqUrl:ApiUrl, method:string, content:string, callback?:(error:Error, data:T)=>void):Promise<T> {
+        reqUrl.operation = operation;
+        if (callback) {
+            var cancellation = this.callOptions.cancellation;
+            if (cancellation && cancellation.cancelled) {
+                var context = LeagueTypenode.context(reqUrl, method);
+                callback(new CancelledError(`${operation} was cancelled : ${cancellation.reason}`, cancellation.reason, context), null);
+                return;
             }
-        };
-        var req:http.ClientRequest;
-        var handler = (res) => {
-            var body = '';
-            res.on('data', (chunk) => {
-                body += chunk;
+            this.cachedCall(reqUrl, method, content, (error:Error, data:any) => {
+                callback(error, <T>data);
+            });
+            return;
+        }
+        return Promises.fromCallback<T>((callback) => this.apiRequest<T>(operation, reqUrl, method, content, callback));
+    }
+
+    /**
+     * Answers a request from the cache when possible. Otherwise, sends it and caches its answer.
+     */
+    private cachedCall(reqUrl:ApiUrl, method:string, content:string, callback:(error:Error, data:any)=>void) {
+        var ttl = this.cache ? this.cache.ttl(method, reqUrl.pathname) : 0;
+        var key = LeagueTypenode.resource(reqUrl);
+        var send = () => {
+            this.sharedCall(reqUrl, method, content, (error:Error, data:any, json:string) => {
+                if (!error && ttl > 0) {
+                    this.cache.store.set(key, json, ttl);
+                }
+                callback(error, data);
             });
-            res.on('end', () => {
-                callback(null, body, res.headers);
-            })
         };
-        if (useHttps) {
-            req = https.request(options, handler);
+        if (ttl > 0 && this.callOptions.cache !== false) {
+            this.cache.store.get(key, (error:Error, json:string) => {
+                if (error || json == null) {
+                    send();
+                } else {
+                    LeagueTypenode.checkAndCast<any>(null, {statusCode: 200, headers: {}, body: json}, LeagueTypenode.context(reqUrl, method), callback);
+                }
+            });
         } else {
-            req = http.request(options, handler);
+            send();
+        }
+    }
+
+    /**
+     * Sends a request, or waits for the answer of the identical request in flight if there is one.
+     *
+     * Only GET requests are shared, and the callers of a shared request get the same data. Calls that can be cancelled
+     * aren't shared, so that cancelling them doesn't abort the calls of others.
+     */
+    private sharedCall(reqUrl:ApiUrl, method:string, content:string, callback:(error:Error, data:any, json:string)=>void) {
+        if (method != 'GET' || this.callOptions.cancellation) {
+            this.retriedCall(reqUrl, method, content, callback);
+            return;
+        }
+        var key = `${method} ${LeagueTypenode.resource(reqUrl)}`;
+        if (this.inFlight.hasOwnProperty(key)) {
+            this.inFlight[key].push(callback);
+            return;
+        }
+        var callbacks = this.inFlight[key] = [callback];
+        this.retriedCall(reqUrl, method, content, (error:Error, data:any, json:string) => {
+            delete this.inFlight[key];
+            var thrown:any = null;
+            callbacks.forEach((callback) => {
+                try {
+                    callback(error, data, json);
+                } catch (e) {
+                    thrown = thrown || e;
+                }
+            });
+            if (thrown) {
+                throw thrown;
+            }
+        });
+    }
+
+    /**
+     * Sends a request within the rate limits, and sends it again according to the retry policy if it fails.
+     *
+     * Each attempt is sent with the key of the pool that would wait the least. When a key gets pulled out of rotation,
+     * the request is sent again with another key right away if one is still in rotation. When every key is cooling,
+     * the attempt waits until the first one gets back into rotation.
+     *
+     * Each attempt goes through the middlewares, whose `onError` hooks can decide whether it is retried.
+     *
+     * Cancelling the call fails it right away, whether it is waiting for the rate limits, for a retry or for a response.
+     */
+    private retriedCall(reqUrl:ApiUrl, method:string, content:string, callback:(error:Error, data:any, json:string)=>void) {
+        var attempt = 1;
+        var finished = false;
+        var retryTimer:any = null;
+        var aborted:CancellationToken = null;
+        var stopListening = () => {};
+        var finish = (error:Error, data:any, json:string) => {
+            if (!finished) {
+                finished = true;
+                stopListening();
+                callback(error, data, json);
+            }
+        };
+        var cancellation = this.callOptions.cancellation;
+        if (cancellation) {
+            stopListening = cancellation.onCancel((reason:string) => {
+                clearTimeout(retryTimer);
+                if (aborted) {
+                    aborted.cancel(reason);
+                }
+                var context = LeagueTypenode.context(reqUrl, method);
+                finish(new CancelledError(`${reqUrl.operation} was cancelled : ${reason}`, reason, context), null, null);
+            });
+        }
+        var call = (key:ApiKey, index:number, bucket:string) => {
+            if (finished) {
+                return;
+            }
+            if (index != -1) {
+                this.keys.use(index, reqUrl.region);
+            }
+            var context = LeagueTypenode.context(reqUrl, method);
+            var request:MiddlewareRequest = {
+                operation: context.operation,
+                region: context.region,
+                method: context.method,
+                url: context.url,
+                headers: {},
+                body: content,
+                attempt: attempt
+            };
+            var done = (error:Error, data:any, json:string) => {
+                if (finished) {
+                    return;
+                }
+                if (index != -1 && this.keys.report(index, error)) {
+                    var next = this.keys.select(undefined, reqUrl.region);
+                    if (next != -1 && this.keys.coolingTime(next) == 0) {
+                        send();
+                        return;
+                    }
+                }
+                if (!error) {
+                    finish(null, data, json);
+                    return;
+                }
+                this.middlewares.onError(request, error, (error:Error, retryDelay:number) => {
+                    var delay = retryDelay !== undefined ? retryDelay : this.retryPolicy.retryDelay(error, attempt, method);
+                    if (delay != null && !finished) {
+                        attempt++;
+                        retryTimer = setTimeout(send, delay);
+                    } else {
+                        finish(error, null, null);
+                    }
+                });
+            };
+            this.middlewares.beforeRequest(request, (error:Error) => {
+                if (finished) {
+                    return;
+                }
+                if (error) {
+                    done(error, null, null);
+                    return;
+                }
+                aborted = new CancellationToken();
+                this.apiCall(reqUrl, request, key, aborted, (error:Error, response:TransportResponse) => {
+                    if (finished) {
+                        return;
+                    }
+                    if (bucket && response) {
+                        this.rateLimiter.update(bucket, response.headers);
+                    }
+                    if (error) {
+                        done(error, null, null);
+                        return;
+                    }
+                    this.middlewares.afterResponse(request, response, (error:Error, response:TransportResponse) => {
+                        LeagueTypenode.checkAndCast<any>(error, response, context, (error:Error, data:any) => {
+                            done(error, data, response ? response.body : null);
+                        });
+                    });
+                });
+            });
+        };
+        var send = () => {
+            var key:ApiKey = null;
+            var index = -1;
+            var bucket = reqUrl.bucket;
+            if (reqUrl.keyType == "tournaments") {
+                key = this.tournamentsKey;
+                bucket = bucket ? this.keyBucket(bucket, key) : null;
+            } else if (reqUrl.keyType == "standard") {
+                index = this.keys.select((index:number) => bucket ? this.rateLimiter.waitTime(this.keyBucket(bucket, this.keys.keys[index], index)) : 0, reqUrl.region);
+                if (index == -1) {
+                    var message = `No key serving ${reqUrl.region} is in rotation`;
+                    finish(new RequestError(message, LeagueTypenode.context(reqUrl, method)), null, null);
+                    return;
+                }
+                var coolingTime = this.keys.coolingTime(index);
+                if (coolingTime > 0) {
+                    retryTimer = setTimeout(send, coolingTime);
+                    return;
+                }
+                key = this.keys.keys[index];
+                bucket = bucket ? this.keyBucket(bucket, key, index) : null;
+            }
+            if (bucket) {
+                this.rateLimiter.schedule(bucket, () => call(key, index, bucket));
+            } else {
+                call(key, index, bucket);
+            }
+        };
+        send();
+    }
+
+    /**
+     * Names the rate limiter's bucket of a key, which has its own limits.
+     *
+     * @param bucket Bucket the request counts against, regardless of its key
+     * @param key Key of the request
+     * @param index Index of the key in the pool, if it is in there
+     */
+    private keyBucket(bucket:string, key:ApiKey, index:number = null):string {
+        var name = index != null ? `${bucket}:${index}` : bucket;
+        if (key.rateLimits) {
+            this.rateLimiter.declare(name, key.rateLimits);
+        }
+        return name;
+    }
+
+    /**
+     * Sends a single request through the transport, failing it with a TimeoutError if it takes too long.
+     *
+     * @param attempt Headers and body of the request, as left by the middlewares
+     * @param key Key the request is sent with, if any
+     * @param aborted Token aborting the request, cancelled when it times out
+     */
+    private apiCall(reqUrl:ApiUrl, attempt:MiddlewareRequest, key:ApiKey, aborted:CancellationToken, callback:(error:Error, response:TransportResponse)=>void) {
+        var method = attempt.method;
+        var context = LeagueTypenode.context(reqUrl, method);
+        var answered = false;
+        var timeout = this.callOptions.timeout != null ? this.callOptions.timeout : this.timeout;
+        var timer:any = null;
+        var answer = (error:Error, response:TransportResponse) => {
+            if (!answered) {
+                answered = true;
+                clearTimeout(timer);
+                callback(error, response);
+            }
+        };
+        if (timeout != null) {
+            timer = setTimeout(() => {
+                aborted.cancel(`Timed out after ${timeout} ms`);
+                answer(new TimeoutError(`${method} ${context.url} timed out after ${timeout} ms`, null, context), null);
+            }, timeout);
         }
-        req.on('error', (e) => {
-            callback(e, null, null);
+        var request:TransportRequest = {
+            method: method,
+            protocol: reqUrl.protocol,
+            hostname: reqUrl.hostname,
+            port: reqUrl.port ? Number(reqUrl.port) : undefined,
+            path: reqUrl.pathname + (reqUrl.query ? reqUrl.query : ''),
+            headers: {
+                'Content-Type': 'application/json; charset=UTF-8'
+            },
+            body: attempt.body,
+            cancellation: aborted
+        };
+        for (var name in attempt.headers) {
+            request.headers[name] = attempt.headers[name];
+        }
+        var keyValue:string = null;
+        if (key) {
+            try {
+                keyValue = key.value;
+            } catch (e) {
+                answer(e, null);
+                return;
+            }
+            if (this.keyLocation == "query") {
+                request.path += `${reqUrl.query ? '&' : '?'}api_key=${encodeURIComponent(keyValue)}`;
+            } else {
+                request.headers['X-Riot-Token'] = keyValue;
+            }
+        }
+        this.transport.request(request, (error:any, response:TransportResponse) => {
+            if (error) {
+                error.message = LeagueTypenode.redact(String(error.message), keyValue);
+                var message = `${method} ${context.url} failed : ${error.message}`;
+                answer(error.code == "ETIMEDOUT" || error.code == "ESOCKETTIMEDOUT" ?
+                    new TimeoutError(message, error, context) : new TransportError(message, error.code || null, error, context), null);
+            } else {
+                answer(null, response);
+            }
         });
-        req.write(content);
-        req.end();
     }
 
-    private static checkAndCast<T>(error:Error, json:string, headers:Object, callback:(error:Error, data:T)=>void) {
+    /**
+     * Removes the value of a key from a text, such as the message of an error given by the transport.
+     */
+    private static redact(text:string, keyValue:string):string {
+        if (!keyValue) {
+            return text;
+        }
+        return text.split(keyValue).join("REDACTED").split(encodeURIComponent(keyValue)).join("REDACTED");
+    }
+
+    /**
+     * Describes a request for the errors happening on it. Its URL is the one without the key.
+     */
+    private static context(reqUrl:ApiUrl, method:string):RequestContext {
+        return {
+            operation: reqUrl.operation,
+            region: reqUrl.region,
+            method: method,
+            url: `${reqUrl.protocol}//${reqUrl.hostname}${reqUrl.port ? `:${reqUrl.port}` : ''}${reqUrl.pathname}${reqUrl.query || ''}`
+        };
+    }
+
+    private static checkAndCast<T>(error:Error, response:TransportResponse, context:RequestContext, callback:(error:Error, data:T)=>void) {
         if (error) {
             callback(error, null);
         } else {
             try {
-                var data = LeagueTypenode.errorCheck(json, headers);
+                var data = LeagueTypenode.errorCheck(response, context);
             } catch (e) {
                 callback(e, null);
                 return;
@@ -968,18 +1743,35 @@ export class LeagueTypenode implements api.champion.Operations, api.championmast
         }
     }
 
-    private static errorCheck(jsonContent:string, headers:Object) {
-        var data = JSON.parse(jsonContent);
-        if (data.status && data.status['status_code'] !== 200) {
-            var error:ApiError;
-            if (data.status['status_code'] == 429) {
-                error = new TooManyRequestsError(
-                    `Server responded with error ${data.status['status_code']} : "${data.status.message}"`,
-                    headers['retry-after'], headers['x-rate-limit-type']);
-            } else {
-                error = new ApiError(data.status['status_code'], `Server responded with error ${data.status['status_code']} : "${data.status.message}"`);
+    /**
+     * Reads the data of a response, or throws the error it describes.
+     *
+     * The HTTP status code decides whether the call failed. Some servers of the API answer their errors with a
+     * successful status code and a `status` object in the body though, which is used then.
+     */
+    private static errorCheck(response:TransportResponse, context:RequestContext) {
+        var body = response.body || "";
+        var data:any = null;
+        var parseError:Error = null;
+        // Operations such as updateTournamentByCode answer with an empty body
+        if (body.trim() != "") {
+            try {
+                data = JSON.parse(body);
+            } catch (e) {
+                parseError = e;
             }
-            throw error;
+        }
+        var status = data && typeof data.status === "object" && data.status != null && typeof data.status['status_code'] === "number" ? data.status : null;
+        var code = response.statusCode || 200;
+        if (code >= 200 && code < 300 && status && status['status_code'] !== 200) {
+            code = status['status_code'];
+        }
+        if (code < 200 || code >= 300) {
+            var message = `Server responded with error ${code}` + (status && status.message ? ` : "${status.message}"` : "");
+            throw ApiError.fromStatus(code, message, context, response.headers);
+        }
+        if (parseError) {
+            throw new ParseError(`Response to ${context.operation} isn't valid JSON : ${parseError.message}`, body, context, response.headers);
         }
         return data;
     }
@@ -0,0 +1,242 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import {ApiKey} from './api-key';
+import {ApiError, TooManyRequestsError} from './errors';
+
+/**
+ * Options of a KeyPool
+ */
+export interface KeyPoolOptions {
+    /**
+     * Number of 429 errors in a row after which a key is pulled out of rotation for a while. Defaults to 3. Only the
+     * errors for a limit of the key ("user" or "application" `X-Rate-Limit-Type`) count.
+     */
+    maxRateLimited?:number;
+    /**
+     * Time a key stays out of rotation after too many 429 errors, in milliseconds, when the server doesn't give it
+     * through `Retry-After`. Defaults to a minute.
+     */
+    cooldown?:number;
+}
+
+/**
+ * Usage of a key of a KeyPool
+ */
+export interface KeyUsage {
+    key:ApiKey;
+    /**
+     * Number of requests sent with the key
+     */
+    requests:number;
+    /**
+     * Number of requests sent with the key, by region
+     */
+    regions:{[region:string]:number};
+    /**
+     * Number of requests that failed with an error answered by the server
+     */
+    errors:number;
+    /**
+     * Number of requests that failed with a 429 error
+     */
+    rateLimited:number;
+    /**
+     * Whether the key is in rotation, pulled out for a while after too many 429 errors, or pulled out for good after
+     * a 401 or 403 error
+     */
+    status:"active"|"cooling"|"disabled";
+    /**
+     * Time the key gets back into rotation, in milliseconds since the epoch, if it is cooling
+     */
+    coolingUntil:number;
+    /**
+     * Error the key was disabled for, if it is disabled
+     */
+    disabledBy:ApiError;
+}
+
+/**
+ * Spreads the requests over several keys, and pulls out of rotation the ones the server refuses.
+ *
+ * Keys are pulled out for good after a 401 or 403 error, and for a while after several 429 errors in a row.
+ */
+export class KeyPool {
+    private usages:KeyUsage[];
+    private rateLimitedInARow:number[];
+
+    /**
+     * Creates a KeyPool.
+     *
+     * @param keys Keys of the pool
+     * @param options Options of the pool
+     */
+    constructor(keys:ApiKey[], private options:KeyPoolOptions = {}) {
+        if (keys.length == 0) {
+            throw new Error("A KeyPool needs at least one key.");
+        }
+        this.usages = keys.map((key) => {
+            return {
+                key: key,
+                requests: 0,
+                regions: {},
+                errors: 0,
+                rateLimited: 0,
+                status: <"active"|"cooling"|"disabled">"active",
+                coolingUntil: null,
+                disabledBy: null
+            };
+        });
+        this.rateLimitedInARow = keys.map(() => 0);
+    }
+
+    /**
+     * Keys of the pool, in rotation or not
+     */
+    public get keys():ApiKey[] {
+        return this.usages.map((usage) => usage.key);
+    }
+
+    /**
+     * Picks the key to send a request with, among the ones in rotation that serve its region.
+     *
+     * When every key not disabled is cooling, the one getting back into rotation first is picked. Requests must wait
+     * for its `coolingTime` before being sent with it.
+     *
+     * @param cost Estimated time a request sent with a key would wait, in milliseconds, given its index
+     * @param region Region of the request. Keys restricted to other regions aren't picked.
+     * @returns {number} Index of the key, or -1 if every key serving the region is disabled
+     */
+    public select(cost:(index:number)=>number = () => 0, region:string = null):number {
+        this.refresh();
+        var best = -1;
+        var bestCost:number;
+        this.usages.forEach((usage, index) => {
+            if (usage.status == "disabled" || !usage.key.serves(region)) {
+                return;
+            }
+            var keyCost = usage.status == "cooling" ? Infinity : cost(index);
+            if (best == -1 || keyCost < bestCost || (keyCost == bestCost && KeyPool.before(usage, this.usages[best]))) {
+                best = index;
+                bestCost = keyCost;
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Time left before a key gets back into rotation.
+     *
+     * @param index Index of the key
+     * @returns {number} Time in milliseconds, 0 if the key is in rotation
+     */
+    public coolingTime(index:number):number {
+        this.refresh();
+        var usage = this.usages[index];
+        return usage.status == "cooling" ? usage.coolingUntil - Date.now() : 0;
+    }
+
+    /**
+     * Counts a request sent with a key.
+     *
+     * @param index Index of the key
+     * @param region Region of the request
+     */
+    public use(index:number, region:string) {
+        var usage = this.usages[index];
+        usage.requests++;
+        usage.regions[region] = (usage.regions[region] || 0) + 1;
+    }
+
+    /**
+     * Reports the outcome of a request sent with a key, to pull it out of rotation if needed.
+     *
+     * @param index Index of the key
+     * @param error Error the request failed with, or null
+     * @returns {boolean} Whether the key was pulled out of rotation
+     */
+    public report(index:number, error:Error):boolean {
+        var usage = this.usages[index];
+        if (!(error instanceof ApiError)) {
+            this.rateLimitedInARow[index] = 0;
+            return false;
+        }
+        usage.errors++;
+        if (error.code == 401 || error.code == 403) {
+            usage.status = "disabled";
+            usage.disabledBy = error;
+            return true;
+        }
+        if (error.code != 429) {
+            this.rateLimitedInARow[index] = 0;
+            return false;
+        }
+        usage.rateLimited++;
+        var limitType = (<TooManyRequestsError>error).limitType;
+        if (limitType != "user" && limitType != "application") {
+            // The limit of a server of the API : another key wouldn't do better
+            return false;
+        }
+        this.rateLimitedInARow[index]++;
+        if (this.rateLimitedInARow[index] < (this.options.maxRateLimited || 3)) {
+            return false;
+        }
+        var retryAfter = (<TooManyRequestsError>error).retryAfter;
+        usage.status = "cooling";
+        usage.coolingUntil = Date.now() + (retryAfter != null && !isNaN(retryAfter) ? retryAfter * 1000 : (this.options.cooldown || 60000));
+        this.rateLimitedInARow[index] = 0;
+        return true;
+    }
+
+    /**
+     * Usage of each key of the pool, in the order they were given.
+     *
+     * @returns {KeyUsage[]}
+     */
+    public usage():KeyUsage[] {
+        this.refresh();
+        return this.usages.map((usage) => {
+            var regions:{[region:string]:number} = {};
+            for (var region in usage.regions) {
+                regions[region] = usage.regions[region];
+            }
+            return {
+                key: usage.key,
+                requests: usage.requests,
+                regions: regions,
+                errors: usage.errors,
+                rateLimited: usage.rateLimited,
+                status: usage.status,
+                coolingUntil: usage.coolingUntil,
+                disabledBy: usage.disabledBy
+            };
+        });
+    }
+
+    /**
+     * Puts back into rotation the keys that cooled down.
+     */
+    private refresh() {
+        var now = Date.now();
+        this.usages.forEach((usage) => {
+            if (usage.status == "cooling" && usage.coolingUntil <= now) {
+                usage.status = "active";
+                usage.coolingUntil = null;
+            }
+        });
+    }
+
+    /**
+     * Whether a key should be picked before another one that would wait as long : the cooling one getting back first,
+     * or else the least used one.
+     */
+    private static before(usage:KeyUsage, other:KeyUsage):boolean {
+        if (usage.status == "cooling") {
+            return usage.coolingUntil < other.coolingUntil;
+        }
+        return usage.requests < other.requests;
+    }
+}
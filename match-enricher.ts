@@ -0,0 +1,372 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as api from 'league-typedef';
+import {LeagueTypenode} from './index';
+import {Regions} from './regions';
+import {MatchOptions} from './operation-options';
+import {Promises} from './promises';
+
+/**
+ * A champion, item, summoner spell, rune or mastery, as described by the static data
+ */
+export interface StaticInfo {
+    id:number;
+    /**
+     * Name in the locale of the enricher, or null if the static data doesn't know the id
+     */
+    name:string;
+    /**
+     * URL of the image, or null if the static data doesn't know the id
+     */
+    image:string;
+}
+
+/**
+ * A champion, as described by the static data
+ */
+export interface ChampionInfo extends StaticInfo {
+    key:string;
+    title:string;
+}
+
+/**
+ * A rune picked by a participant, with its name and image
+ */
+export interface EnrichedRune extends api.match.Rune {
+    name:string;
+    image:string;
+}
+
+/**
+ * A mastery picked by a participant, with its name and image
+ */
+export interface EnrichedMastery extends api.match.Mastery {
+    name:string;
+    image:string;
+}
+
+/**
+ * A participant whose ids are resolved against the static data
+ */
+export interface EnrichedParticipant extends api.match.Participant {
+    champion:ChampionInfo;
+    /**
+     * Summoner spells, in the order of `spell1Id` and `spell2Id`
+     */
+    spells:StaticInfo[];
+    /**
+     * Items of the slots `item0` to `item6`, with null for the empty slots
+     */
+    items:StaticInfo[];
+    runes:EnrichedRune[];
+    masteries:EnrichedMastery[];
+}
+
+/**
+ * A ban whose champion is resolved against the static data
+ */
+export interface EnrichedBan extends api.match.BannedChampion {
+    champion:ChampionInfo;
+}
+
+/**
+ * A team whose bans are resolved against the static data
+ */
+export interface EnrichedTeam extends api.match.Team {
+    bans:EnrichedBan[];
+}
+
+/**
+ * A match whose ids are resolved against the static data of its patch
+ */
+export interface EnrichedMatch extends api.match.MatchDetail {
+    /**
+     * Version of the static data the ids were resolved against
+     */
+    staticDataVersion:string;
+    participants:EnrichedParticipant[];
+    teams:EnrichedTeam[];
+}
+
+/**
+ * Options of a MatchEnricher
+ */
+export interface MatchEnricherOptions {
+    /**
+     * Locale of the names, such as "en_US". Defaults to the locale of the region.
+     */
+    locale?:string;
+    /**
+     * URL the image paths are relative to. Defaults to the CDN of Data Dragon.
+     */
+    imageUrl?:string;
+    /**
+     * Time during which the list of versions is kept, in seconds. It is retrieved again afterwards to find the new
+     * patches. Defaults to an hour.
+     */
+    versionsTtl?:number;
+    /**
+     * Maximum number of versions whose static data is kept. The least recently used one is discarded first. Defaults
+     * to 5.
+     */
+    maxVersions?:number;
+}
+
+/**
+ * Static data of a version, by id
+ */
+interface StaticDataSet {
+    version:string;
+    champions:{[id:string]:api.lolStaticData.ChampionDto};
+    items:{[id:string]:api.lolStaticData.ItemDto};
+    spells:{[id:string]:api.lolStaticData.SummonerSpellDto};
+    runes:{[id:string]:api.lolStaticData.RuneDto};
+    masteries:{[id:string]:api.lolStaticData.MasteryDto};
+}
+
+/**
+ * Resolves the champion, item, summoner spell, rune and mastery ids of matches against the static data of the patch
+ * each match was played on.
+ *
+ * The static data of each version is retrieved once, and kept for the next matches of that version. Only the static data
+ * of the latest versions used is kept, and the list of versions is retrieved again from time to time.
+ */
+export class MatchEnricher {
+    /**
+     * Default URL the image paths are relative to
+     */
+    public static IMAGE_URL = "https://ddragon.leagueoflegends.com/cdn/";
+
+    /**
+     * Default time during which the list of versions is kept, in seconds
+     */
+    public static VERSIONS_TTL = 3600;
+
+    /**
+     * Default maximum number of versions whose static data is kept
+     */
+    public static MAX_VERSIONS = 5;
+
+    private loaded:{[key:string]:{data:any, expires:number}} = {};
+    /**
+     * Keys of the static data kept, from the least to the most recently used
+     */
+    private recent:string[] = [];
+    private waiting:{[key:string]:((error:Error, data:any)=>void)[]} = {};
+
+    /**
+     * Creates a MatchEnricher.
+     *
+     * @param tn Instance used to retrieve the static data
+     * @param options Options of the enricher
+     */
+    constructor(private tn:LeagueTypenode, private options:MatchEnricherOptions = {}) {
+    }
+
+    /**
+     * Retrieves a match by its id, and resolves its ids.
+     *
+     * @param region Region of the match
+     * @param matchId Id of the match
+     * @param options Options of the match, such as whether to include the timeline
+     * @param callback Called with the enriched match
+     */
+    public getMatchById(region:string, matchId:number, options:MatchOptions = {}, callback?:(error:Error, match:EnrichedMatch)=>void):Promise<EnrichedMatch> {
+        if (!callback) {
+            return Promises.fromCallback<EnrichedMatch>((callback) => this.getMatchById(region, matchId, options, callback));
+        }
+        this.tn.getMatchById(region, matchId, options, (error:Error, match:api.match.MatchDetail) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            this.enrich(region, match, callback);
+        });
+    }
+
+    /**
+     * Resolves the ids of a match. The match given isn't changed.
+     *
+     * @param region Region of the match
+     * @param match Match to enrich
+     * @param callback Called with a copy of the match holding the names and images of its ids
+     */
+    public enrich(region:string, match:api.match.MatchDetail, callback?:(error:Error, match:EnrichedMatch)=>void):Promise<EnrichedMatch> {
+        if (!callback) {
+            return Promises.fromCallback<EnrichedMatch>((callback) => this.enrich(region, match, callback));
+        }
+        region = Regions.parseRegion(region);
+        this.version(region, match.matchVersion, (error:Error, version:string) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            this.staticData(region, version, (error:Error, data:StaticDataSet) => {
+                callback(error, error ? null : this.decorate(match, data));
+            });
+        });
+    }
+
+    /**
+     * Finds the version of the static data matching the patch of a match, such as "6.6.1" for "6.6.138.9054". The
+     * latest version is used for the patches the static data doesn't have.
+     */
+    private version(region:string, matchVersion:string, callback:(error:Error, version:string)=>void) {
+        var ttl = this.options.versionsTtl != null ? this.options.versionsTtl : MatchEnricher.VERSIONS_TTL;
+        this.once<string[]>(`versions:${region}`, ttl, (callback) => this.tn.getVersions(region, callback), (error:Error, versions:string[]) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            var patch = (matchVersion || "").split(".").slice(0, 2).join(".") + ".";
+            var matching = versions.filter((version) => version.indexOf(patch) == 0);
+            callback(null, matching.length > 0 ? matching[0] : versions[0]);
+        });
+    }
+
+    /**
+     * Retrieves the static data of a version, once for every match of that version while it is kept
+     */
+    private staticData(region:string, version:string, callback:(error:Error, data:StaticDataSet)=>void) {
+        var key = `data:${region}:${version}`;
+        this.once<StaticDataSet>(key, Infinity, (callback) => {
+            var locale = this.options.locale;
+            var data:StaticDataSet = {version: version, champions: null, items: null, spells: null, runes: null, masteries: null};
+            var remaining = 5;
+            var failed = false;
+            var done = (field:string) => (error:Error, list:{data:{[id:string]:any}}) => {
+                if (failed) {
+                    return;
+                }
+                if (error) {
+                    failed = true;
+                    callback(error, null);
+                    return;
+                }
+                data[field] = list.data || {};
+                if (--remaining == 0) {
+                    callback(null, data);
+                }
+            };
+            this.tn.getChampions(region, {locale: locale, version: version, dataById: true, champData: "image"}, done("champions"));
+            this.tn.getItems(region, {locale: locale, version: version, itemListData: "image"}, done("items"));
+            this.tn.getSummonerSpells(region, {locale: locale, version: version, dataById: true, spellData: "image"}, done("spells"));
+            this.tn.getRunes(region, {locale: locale, version: version, runeListData: "image"}, done("runes"));
+            this.tn.getMasteries(region, {locale: locale, version: version, masteryListData: "image"}, done("masteries"));
+        }, (error:Error, data:StaticDataSet) => {
+            if (!error) {
+                this.use(key);
+            }
+            callback(error, data);
+        });
+    }
+
+    /**
+     * Marks some static data as the most recently used, and discards the least recently used ones beyond the maximum
+     */
+    private use(key:string) {
+        var max = this.options.maxVersions != null ? this.options.maxVersions : MatchEnricher.MAX_VERSIONS;
+        this.recent = this.recent.filter((recentKey) => recentKey != key);
+        this.recent.push(key);
+        while (this.recent.length > max) {
+            delete this.loaded[this.recent.shift()];
+        }
+    }
+
+    /**
+     * Loads something once : calls made while it loads wait for it, and the next ones get it right away until it
+     * expires. Failures aren't kept, so that the next call loads it again.
+     *
+     * @param ttl Time during which it is kept, in seconds
+     */
+    private once<T>(key:string, ttl:number, load:(callback:(error:Error, data:T)=>void)=>void, callback:(error:Error, data:T)=>void) {
+        if (this.loaded.hasOwnProperty(key) && this.loaded[key].expires > Date.now()) {
+            callback(null, this.loaded[key].data);
+            return;
+        }
+        delete this.loaded[key];
+        if (this.waiting.hasOwnProperty(key)) {
+            this.waiting[key].push(callback);
+            return;
+        }
+        this.waiting[key] = [callback];
+        load((error:Error, data:T) => {
+            var callbacks = this.waiting[key];
+            delete this.waiting[key];
+            if (!error) {
+                this.loaded[key] = {data: data, expires: Date.now() + ttl * 1000};
+            }
+            callbacks.forEach((callback) => callback(error, error ? null : data));
+        });
+    }
+
+    private decorate(match:api.match.MatchDetail, data:StaticDataSet):EnrichedMatch {
+        var enriched = <EnrichedMatch>MatchEnricher.copy<any>(match);
+        enriched.staticDataVersion = data.version;
+        enriched.participants = (match.participants || []).map((participant) => {
+            var result = <EnrichedParticipant>MatchEnricher.copy<any>(participant);
+            var stats = participant.stats || <api.match.ParticipantStats>{};
+            result.champion = this.champion(participant.championId, data);
+            result.spells = [participant.spell1Id, participant.spell2Id].map((id) => this.info(id, data.spells, data));
+            result.items = [stats.item0, stats.item1, stats.item2, stats.item3, stats.item4, stats.item5, stats.item6]
+                .map((id) => id ? this.info(id, data.items, data) : null);
+            result.runes = (participant.runes || []).map((rune) => this.named<EnrichedRune>(rune, rune.runeId, data.runes, data));
+            result.masteries = (participant.masteries || []).map((mastery) => this.named<EnrichedMastery>(mastery, mastery.masteryId, data.masteries, data));
+            return result;
+        });
+        enriched.teams = (match.teams || []).map((team) => {
+            var result = <EnrichedTeam>MatchEnricher.copy<any>(team);
+            result.bans = (team.bans || []).map((ban) => {
+                var enrichedBan = <EnrichedBan>MatchEnricher.copy<any>(ban);
+                enrichedBan.champion = this.champion(ban.championId, data);
+                return enrichedBan;
+            });
+            return result;
+        });
+        return enriched;
+    }
+
+    private champion(id:number, data:StaticDataSet):ChampionInfo {
+        var champion = <ChampionInfo>this.info(id, data.champions, data);
+        var dto = data.champions[id];
+        champion.key = dto ? dto.key : null;
+        champion.title = dto ? dto.title : null;
+        return champion;
+    }
+
+    private named<T>(source:Object, id:number, entries:{[id:string]:{name:string, image:api.lolStaticData.ImageDto}}, data:StaticDataSet):T {
+        var info = this.info(id, entries, data);
+        var named = <T>MatchEnricher.copy(source);
+        named["name"] = info.name;
+        named["image"] = info.image;
+        return named;
+    }
+
+    private info(id:number, entries:{[id:string]:{name:string, image:api.lolStaticData.ImageDto}}, data:StaticDataSet):StaticInfo {
+        var entry = entries[id];
+        return {
+            id: id,
+            name: entry ? entry.name : null,
+            image: entry && entry.image ? this.imageUrl(entry.image, data.version) : null
+        };
+    }
+
+    private imageUrl(image:api.lolStaticData.ImageDto, version:string):string {
+        var base = this.options.imageUrl || MatchEnricher.IMAGE_URL;
+        return `${base}${version}/img/${image.group}/${image.full}`;
+    }
+
+    private static copy<T>(source:T):T {
+        var copy = <T>{};
+        for (var key in source) {
+            if (source.hasOwnProperty(key)) {
+                copy[key] = source[key];
+            }
+        }
+        return copy;
+    }
+}
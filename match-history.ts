@@ -0,0 +1,166 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as api from 'league-typedef';
+import {LeagueTypenode} from './index';
+import {MatchListFilters} from './operation-options';
+
+/**
+ * Filters and paging of a MatchHistory
+ */
+export interface MatchHistoryOptions extends MatchListFilters {
+    /**
+     * Index of the first match, 0 being the most recent one. Defaults to 0.
+     */
+    beginIndex?:number;
+    /**
+     * Maximum number of matches to go through. Defaults to every match.
+     */
+    limit?:number;
+    /**
+     * Number of matches asked by each request. Defaults to 20.
+     */
+    pageSize?:number;
+}
+
+/**
+ * Result of the `next()` method of a MatchHistory, as in the async iteration protocol
+ */
+export interface MatchHistoryResult {
+    done:boolean;
+    value:api.matchlist.MatchReference;
+}
+
+/**
+ * Goes through the match list of a summoner, most recent match first, asking for the pages as they are needed.
+ *
+ * It follows the async iteration protocol, so `for await (let match of history)` works where it is supported. The
+ * iteration stops once `totalGames` matches were given.
+ */
+export class MatchHistory {
+    /**
+     * Total number of matches of the summoner matching the filters, known once the first page is received
+     */
+    public totalGames:number = null;
+
+    private page:api.matchlist.MatchReference[] = [];
+    private index:number;
+    private given:number = 0;
+    private finished:boolean = false;
+    private queue:Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a MatchHistory. No request is made before the first match is asked for.
+     *
+     * @param tn Instance sending the requests
+     * @param region Region of the summoner
+     * @param summonerId Id of the summoner
+     * @param options Filters and paging of the matches
+     */
+    constructor(private tn:LeagueTypenode, private region:string, private summonerId:number, private options:MatchHistoryOptions = {}) {
+        this.index = options.beginIndex || 0;
+    }
+
+    /**
+     * Gives the next match, fetching the next page if needed.
+     *
+     * @returns {Promise<MatchHistoryResult>}
+     */
+    public next():Promise<MatchHistoryResult> {
+        // Calls made before the previous one resolved wait for it, so that the pages are fetched in order
+        var result = this.queue.then(() => this.take());
+        this.queue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * Stops the iteration. The next calls to `next()` give no match.
+     *
+     * @returns {Promise<MatchHistoryResult>}
+     */
+    public return():Promise<MatchHistoryResult> {
+        this.finished = true;
+        this.page = [];
+        return Promise.resolve({done: true, value: undefined});
+    }
+
+    /**
+     * Calls a function with each match.
+     *
+     * @param callback Called with each match, in order
+     * @returns {Promise<void>} Resolved once every match was given
+     */
+    public forEach(callback:(match:api.matchlist.MatchReference)=>void):Promise<void> {
+        return this.next().then((result) => {
+            if (result.done) {
+                return;
+            }
+            callback(result.value);
+            return this.forEach(callback);
+        });
+    }
+
+    /**
+     * Gathers every match.
+     *
+     * @returns {Promise<api.matchlist.MatchReference[]>}
+     */
+    public toArray():Promise<api.matchlist.MatchReference[]> {
+        var matches:api.matchlist.MatchReference[] = [];
+        return this.forEach((match) => matches.push(match)).then(() => matches);
+    }
+
+    private take():Promise<MatchHistoryResult> {
+        var limit = this.options.limit != null ? this.options.limit : Infinity;
+        if (this.given >= limit) {
+            this.finished = true;
+            this.page = [];
+        }
+        if (this.page.length > 0 || this.finished) {
+            return Promise.resolve(this.result());
+        }
+        return this.fetch().then(() => this.result());
+    }
+
+    private result():MatchHistoryResult {
+        if (this.finished && this.page.length == 0) {
+            return {done: true, value: undefined};
+        }
+        this.given++;
+        return {done: false, value: this.page.shift()};
+    }
+
+    private fetch():Promise<void> {
+        var options = this.options;
+        var limit = options.limit != null ? options.limit : Infinity;
+        var endIndex = this.index + Math.min(options.pageSize || 20, limit - this.given);
+        return this.tn.getMatchesBySummonerId(this.region, this.summonerId, {
+            championIds: options.championIds,
+            rankedQueues: options.rankedQueues,
+            seasons: options.seasons,
+            beginTime: options.beginTime,
+            endTime: options.endTime,
+            beginIndex: this.index,
+            endIndex: endIndex
+        }).then((list) => {
+            this.totalGames = list.totalGames;
+            this.page = (list.matches || []).slice(0, Math.max(0, this.totalGames - this.index));
+            var next = list.endIndex != null ? list.endIndex : this.index + this.page.length;
+            if (this.page.length == 0 || next <= this.index || next >= this.totalGames) {
+                this.finished = true;
+            }
+            this.index = next;
+        });
+    }
+}
+
+// Lets `for await` go through a MatchHistory where async iteration is supported
+var symbols:Function & {asyncIterator?:symbol} = global.Symbol;
+if (symbols && symbols.asyncIterator) {
+    MatchHistory.prototype[symbols.asyncIterator] = function () {
+        return this;
+    };
+}
@@ -0,0 +1,265 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as api from 'league-typedef';
+
+/**
+ * An error that happens when a match was retrieved without its timeline
+ */
+export class MissingTimelineError implements Error {
+    public name:string = "MissingTimelineError";
+
+    constructor(public message:string, public matchId:number) {
+    }
+}
+
+/**
+ * Gold, experience and creep score of a participant, at the timestamp of each frame
+ */
+export interface ParticipantCurves {
+    participantId:number;
+    /**
+     * Timestamp of each frame, in milliseconds since the start of the match
+     */
+    timestamps:number[];
+    /**
+     * Total gold earned
+     */
+    gold:number[];
+    xp:number[];
+    /**
+     * Minions and jungle monsters killed
+     */
+    cs:number[];
+}
+
+/**
+ * A kill of a champion, a building or an epic monster
+ */
+export interface ObjectiveEvent {
+    /**
+     * Time of the kill, in milliseconds since the start of the match
+     */
+    timestamp:number;
+    /**
+     * Team that got the kill, or null if it can't be told, such as for a monster killed by minions
+     */
+    teamId:number;
+    /**
+     * Participant who got the kill, or 0 for minions, towers and monsters
+     */
+    killerId:number;
+    assistingParticipantIds:number[];
+    position:api.match.Position;
+    /**
+     * Event the kill was read from
+     */
+    event:api.match.Event;
+}
+
+/**
+ * The kills deciding the course of a match
+ */
+export interface Objectives {
+    firstBlood:ObjectiveEvent;
+    firstTower:ObjectiveEvent;
+    dragons:ObjectiveEvent[];
+    barons:ObjectiveEvent[];
+}
+
+/**
+ * An item bought by a participant
+ */
+export interface ItemPurchase {
+    itemId:number;
+    /**
+     * Time of the purchase, in milliseconds since the start of the match
+     */
+    timestamp:number;
+}
+
+/**
+ * Interprets the timeline of a match : how the participants grew, who got the objectives, and what they bought.
+ *
+ * Everything is computed from the match given, without any request.
+ */
+export class MatchTimeline {
+    private frames:api.match.Frame[];
+    private events:api.match.Event[];
+    private teams:{[participantId:string]:number} = {};
+
+    /**
+     * Creates a MatchTimeline.
+     *
+     * @param match Match retrieved with its timeline
+     * @throws MissingTimelineError if the match has no timeline
+     */
+    constructor(private match:api.match.MatchDetail) {
+        if (!match.timeline || !match.timeline.frames) {
+            throw new MissingTimelineError(`Match ${match.matchId} has no timeline. Retrieve it with includeTimeline set to true.`, match.matchId);
+        }
+        this.frames = match.timeline.frames;
+        this.events = [];
+        this.frames.forEach((frame) => {
+            this.events = this.events.concat(frame.events || []);
+        });
+        (match.participants || []).forEach((participant) => {
+            this.teams[participant.participantId] = participant.teamId;
+        });
+    }
+
+    /**
+     * Gives the gold, experience and creep score curves of a participant.
+     *
+     * @param participantId Id of the participant in the match, from 1 to 10
+     * @returns {ParticipantCurves}
+     */
+    public curves(participantId:number):ParticipantCurves {
+        var curves:ParticipantCurves = {participantId: participantId, timestamps: [], gold: [], xp: [], cs: []};
+        this.frames.forEach((frame) => {
+            var participantFrame = frame.participantFrames && frame.participantFrames[participantId];
+            if (participantFrame) {
+                curves.timestamps.push(frame.timestamp);
+                curves.gold.push(participantFrame.totalGold);
+                curves.xp.push(participantFrame.xp);
+                curves.cs.push(participantFrame.minionsKilled + participantFrame.jungleMinionsKilled);
+            }
+        });
+        return curves;
+    }
+
+    /**
+     * Gives the curves of every participant.
+     *
+     * @returns {ParticipantCurves[]} Curves by participant, in the order of the participants
+     */
+    public allCurves():ParticipantCurves[] {
+        return (this.match.participants || []).map((participant) => this.curves(participant.participantId));
+    }
+
+    /**
+     * Gives the difference between the total gold of the two teams at some time of the match.
+     *
+     * @param minutes Time of the match, in minutes
+     * @param teamId Team whose lead is given. Defaults to the blue team, 100.
+     * @returns {number} Gold of the team minus the gold of the other team, or null if the match was over by then
+     */
+    public goldDifferenceAt(minutes:number, teamId:number = 100):number {
+        var frame = this.frameAt(minutes);
+        if (!frame) {
+            return null;
+        }
+        var difference = 0;
+        for (var participantId in frame.participantFrames) {
+            var gold = frame.participantFrames[participantId].totalGold;
+            difference += this.teams[participantId] == teamId ? gold : -gold;
+        }
+        return difference;
+    }
+
+    /**
+     * Finds the first blood, the first tower, and the dragons and barons killed.
+     *
+     * @returns {Objectives}
+     */
+    public objectives():Objectives {
+        var kills = this.events.filter((event) => event.eventType == "CHAMPION_KILL");
+        var towers = this.events.filter((event) => event.eventType == "BUILDING_KILL" && event.buildingType == "TOWER_BUILDING");
+        var monsters = (type:string) => this.events
+            .filter((event) => event.eventType == "ELITE_MONSTER_KILL" && event.monsterType == type)
+            .map((event) => this.objective(event, this.teams[event.killerId]));
+        return {
+            firstBlood: kills.length > 0 ? this.objective(kills[0], this.killingTeam(kills[0])) : null,
+            // The team of a building kill is the team that lost the building
+            firstTower: towers.length > 0 ? this.objective(towers[0], this.otherTeam(towers[0].teamId)) : null,
+            dragons: monsters("DRAGON"),
+            barons: monsters("BARON_NASHOR")
+        };
+    }
+
+    /**
+     * Gives the share of the kills of its team a participant took part in, by killing or assisting.
+     *
+     * @param participantId Id of the participant in the match, from 1 to 10
+     * @returns {number} Ratio between 0 and 1, 0 if the team got no kill
+     */
+    public killParticipation(participantId:number):number {
+        var teamId = this.teams[participantId];
+        var teamKills = 0;
+        var involved = 0;
+        this.events.filter((event) => event.eventType == "CHAMPION_KILL").forEach((event) => {
+            if (this.killingTeam(event) != teamId) {
+                return;
+            }
+            teamKills++;
+            if (event.killerId == participantId || (event.assistingParticipantIds || []).indexOf(participantId) != -1) {
+                involved++;
+            }
+        });
+        return teamKills == 0 ? 0 : involved / teamKills;
+    }
+
+    /**
+     * Gives the items bought by a participant, in the order they were bought. Purchases undone are left out.
+     *
+     * @param participantId Id of the participant in the match, from 1 to 10
+     * @returns {ItemPurchase[]}
+     */
+    public buildOrder(participantId:number):ItemPurchase[] {
+        var purchases:ItemPurchase[] = [];
+        this.events.filter((event) => event.participantId == participantId).forEach((event) => {
+            if (event.eventType == "ITEM_PURCHASED") {
+                purchases.push({itemId: event.itemId, timestamp: event.timestamp});
+            } else if (event.eventType == "ITEM_UNDO" && event.itemBefore) {
+                // Undoing a purchase goes from the item bought back to what was there before
+                for (var i = purchases.length - 1; i >= 0; i--) {
+                    if (purchases[i].itemId == event.itemBefore) {
+                        purchases.splice(i, 1);
+                        break;
+                    }
+                }
+            }
+        });
+        return purchases;
+    }
+
+    /**
+     * Finds the frame closest to some time of the match, if the match lasted until then
+     */
+    private frameAt(minutes:number):api.match.Frame {
+        var time = minutes * 60000;
+        var interval = this.match.timeline.frameInterval || 60000;
+        var closest:api.match.Frame = null;
+        this.frames.forEach((frame) => {
+            if (!closest || Math.abs(frame.timestamp - time) < Math.abs(closest.timestamp - time)) {
+                closest = frame;
+            }
+        });
+        return closest && Math.abs(closest.timestamp - time) < interval / 2 ? closest : null;
+    }
+
+    /**
+     * Team that got a champion kill. Champions executed by a tower or minions count as killed by the other team.
+     */
+    private killingTeam(event:api.match.Event):number {
+        return event.killerId ? this.teams[event.killerId] : this.otherTeam(this.teams[event.victimId]);
+    }
+
+    private otherTeam(teamId:number):number {
+        return teamId == 100 ? 200 : teamId == 200 ? 100 : null;
+    }
+
+    private objective(event:api.match.Event, teamId:number):ObjectiveEvent {
+        return {
+            timestamp: event.timestamp,
+            teamId: teamId != null ? teamId : null,
+            killerId: event.killerId,
+            assistingParticipantIds: event.assistingParticipantIds || [],
+            position: event.position,
+            event: event
+        };
+    }
+}
@@ -0,0 +1,168 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import {RequestContext} from './errors';
+import {TransportResponse} from './transport';
+
+/**
+ * An attempt of a request, as seen by the middlewares
+ */
+export interface MiddlewareRequest extends RequestContext {
+    /**
+     * Headers sent with the request, in addition to the ones set by LeagueTypenode. Middlewares can add some.
+     */
+    headers:{[name:string]:string};
+    /**
+     * Body of the request. Middlewares can replace it.
+     */
+    body:string;
+    /**
+     * Number of the attempt, starting at 1
+     */
+    attempt:number;
+}
+
+/**
+ * Hooks run on every request sent to the API, for metrics, logging, header injection, response transformation or
+ * custom retry rules. Every hook is optional, and must call `next` once it is done.
+ *
+ * Calls answered from the cache don't send any request, and don't run the middlewares.
+ */
+export interface Middleware {
+    /**
+     * Called before each attempt of a request is sent.
+     *
+     * @param request Attempt about to be sent, whose headers and body can be changed
+     * @param next Call it to go on, or with an error to fail the attempt without sending it
+     */
+    beforeRequest?(request:MiddlewareRequest, next:(error?:Error)=>void):void;
+
+    /**
+     * Called with each response received, before its status code is checked.
+     *
+     * @param request Attempt the response answers
+     * @param response Response received
+     * @param next Call it to go on, with another response to replace this one, or with an error to fail the attempt
+     */
+    afterResponse?(request:MiddlewareRequest, response:TransportResponse, next:(error?:Error, response?:TransportResponse)=>void):void;
+
+    /**
+     * Called with the error of each failed attempt, before the retry policy is asked whether to retry it.
+     *
+     * @param request Attempt that failed
+     * @param error Error the attempt failed with
+     * @param next Call it to go on, with another error to replace this one, and with a time to wait in milliseconds
+     *             before retrying, or null to not retry. The retry policy decides when no time is given.
+     */
+    onError?(request:MiddlewareRequest, error:Error, next:(error?:Error, retryDelay?:number)=>void):void;
+}
+
+/**
+ * Runs the hooks of the middlewares, in the order the middlewares were added
+ */
+export class MiddlewareChain {
+    private middlewares:Middleware[] = [];
+
+    /**
+     * Adds a middleware at the end of the chain.
+     *
+     * @param middleware Middleware to add
+     */
+    public use(middleware:Middleware) {
+        this.middlewares.push(middleware);
+    }
+
+    /**
+     * Runs the `beforeRequest` hooks.
+     *
+     * @param request Attempt about to be sent
+     * @param callback Called once every hook ran, or with the error of the hook that failed
+     */
+    public beforeRequest(request:MiddlewareRequest, callback:(error:Error)=>void) {
+        this.run("beforeRequest", (middleware, next) => {
+            middleware.beforeRequest(request, (error?:Error) => next(error || null));
+        }, (error:Error) => callback(error));
+    }
+
+    /**
+     * Runs the `afterResponse` hooks.
+     *
+     * @param request Attempt the response answers
+     * @param response Response received
+     * @param callback Called with the response given by the last hook, or with the error of the hook that failed
+     */
+    public afterResponse(request:MiddlewareRequest, response:TransportResponse, callback:(error:Error, response:TransportResponse)=>void) {
+        this.run("afterResponse", (middleware, next) => {
+            middleware.afterResponse(request, response, (error?:Error, replaced?:TransportResponse) => {
+                if (replaced) {
+                    response = replaced;
+                }
+                next(error || null);
+            });
+        }, (error:Error) => callback(error, error ? null : response));
+    }
+
+    /**
+     * Runs the `onError` hooks. Every hook runs, even after one gave a time to wait.
+     *
+     * @param request Attempt that failed
+     * @param error Error the attempt failed with
+     * @param callback Called with the error given by the last hook, and the last time to wait given, if any
+     */
+    public onError(request:MiddlewareRequest, error:Error, callback:(error:Error, retryDelay:number)=>void) {
+        var retryDelay:number = undefined;
+        this.run("onError", (middleware, next) => {
+            middleware.onError(request, error, (replaced?:Error, delay?:number) => {
+                if (replaced) {
+                    error = replaced;
+                }
+                if (delay !== undefined) {
+                    retryDelay = delay;
+                }
+                next(null);
+            });
+        }, () => callback(error, retryDelay));
+    }
+
+    /**
+     * Runs a hook of each middleware having it, one after the other, until one of them fails.
+     *
+     * Errors thrown by a hook count as failures, except for the `onError` hooks whose errors are ignored.
+     */
+    private run(hook:string, step:(middleware:Middleware, next:(error:Error)=>void)=>void, done:(error:Error)=>void) {
+        var middlewares = this.middlewares.filter((middleware) => typeof middleware[hook] === "function");
+        var index = 0;
+        var next = () => {
+            if (index >= middlewares.length) {
+                done(null);
+                return;
+            }
+            var called = false;
+            var proceed = (error:Error) => {
+                if (called) {
+                    return;
+                }
+                called = true;
+                if (error) {
+                    done(error);
+                } else {
+                    index++;
+                    next();
+                }
+            };
+            try {
+                step(middlewares[index], proceed);
+            } catch (e) {
+                if (called) {
+                    // Thrown after the hook went on, by the rest of the chain
+                    throw e;
+                }
+                proceed(hook == "onError" ? null : e);
+            }
+        };
+        next();
+    }
+}
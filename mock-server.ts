@@ -0,0 +1,270 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {Transport, TransportRequest, TransportResponse, NodeTransport} from './transport';
+
+/**
+ * A recorded request and its response
+ */
+export interface Fixture {
+    request:{
+        method:string;
+        host:string;
+        /**
+         * Path of the request, including its query string without the API key
+         */
+        path:string;
+        /**
+         * Body the request must have, when it has a JSON body
+         */
+        json?:any;
+    };
+    response:{
+        statusCode:number;
+        headers:{[name:string]:string};
+        /**
+         * Body of the response, when it is JSON
+         */
+        json?:any;
+        /**
+         * Body of the response, when it isn't JSON
+         */
+        body?:string;
+    };
+}
+
+/**
+ * Options of a MockServer
+ */
+export interface MockServerOptions {
+    /**
+     * Whether requests without a fixture are forwarded to the real servers, and their response recorded as a new
+     * fixture. Defaults to false.
+     */
+    record?:boolean;
+    /**
+     * Transport used to forward the requests in record mode. Defaults to a NodeTransport.
+     */
+    recordTransport?:Transport;
+}
+
+/**
+ * Local HTTP server standing in for the servers of the API, answering with recorded fixtures.
+ *
+ * Requests reach it through the Transport given by `transport()`, which keeps the host and protocol they were meant
+ * for in the `X-Forwarded-Host` and `X-Forwarded-Proto` headers.
+ */
+export class MockServer {
+    /**
+     * Response headers kept in the recorded fixtures
+     */
+    private static recordedHeaders = ['content-type', 'retry-after', 'x-rate-limit-type', 'x-rate-limit-count',
+        'x-app-rate-limit', 'x-app-rate-limit-count'];
+
+    private server:http.Server;
+    private fixtures:{[key:string]:Fixture} = {};
+    private recordTransport:Transport;
+
+    /**
+     * Creates a MockServer serving the fixtures of a directory.
+     *
+     * @param directory Directory containing the fixtures, as JSON files
+     * @param options Options of the server
+     */
+    constructor(public directory:string, private options:MockServerOptions = {}) {
+        this.recordTransport = options.recordTransport || new NodeTransport();
+        this.server = http.createServer((req:http.IncomingMessage, res:http.ServerResponse) => {
+            this.handle(req, res);
+        });
+        if (fs.existsSync(directory)) {
+            fs.readdirSync(directory).filter((file) => /\.json$/.test(file)).forEach((file) => {
+                this.add(JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+            });
+        }
+    }
+
+    /**
+     * Identifies a request, regardless of the API key it uses.
+     *
+     * @param method HTTP method of the request
+     * @param host Host the request is meant for
+     * @param requestPath Path of the request, including its query string
+     * @returns {string}
+     */
+    public static requestKey(method:string, host:string, requestPath:string):string {
+        var keyless = requestPath.replace(/([?&])api_key=[^&]*(&|$)/, (match, before, after) => {
+            return after ? before : '';
+        });
+        return `${method.toUpperCase()} ${host}${keyless}`;
+    }
+
+    /**
+     * Port the server listens on
+     */
+    public get port():number {
+        return this.server.address().port;
+    }
+
+    /**
+     * Starts listening on the local interface.
+     *
+     * @param port Port to listen on. 0 picks a free port.
+     * @param callback Called once the server listens
+     */
+    public listen(port:number, callback?:()=>void) {
+        this.server.listen(port, '127.0.0.1', callback);
+    }
+
+    /**
+     * Stops listening.
+     *
+     * @param callback Called once the server is closed
+     */
+    public close(callback?:()=>void) {
+        this.server.close(callback);
+    }
+
+    /**
+     * Adds a fixture to the ones served.
+     *
+     * @param fixture Fixture to add
+     */
+    public add(fixture:Fixture) {
+        this.fixtures[MockServer.requestKey(fixture.request.method, fixture.request.host, fixture.request.path)] = fixture;
+    }
+
+    /**
+     * Creates a Transport sending every request to this server.
+     *
+     * @returns {Transport}
+     */
+    public transport():Transport {
+        var transport = new NodeTransport();
+        return {
+            request: (request:TransportRequest, callback:(error:Error, response:TransportResponse)=>void) => {
+                var headers:{[name:string]:string} = {};
+                for (var name in request.headers) {
+                    headers[name] = request.headers[name];
+                }
+                headers['X-Forwarded-Host'] = request.hostname + (request.port ? `:${request.port}` : '');
+                headers['X-Forwarded-Proto'] = request.protocol.replace(/:$/, '');
+                transport.request({
+                    method: request.method,
+                    protocol: 'http:',
+                    hostname: '127.0.0.1',
+                    port: this.port,
+                    path: request.path,
+                    headers: headers,
+                    body: request.body
+                }, callback);
+            }
+        };
+    }
+
+    private handle(req:http.IncomingMessage, res:http.ServerResponse) {
+        var host = <string>req.headers['x-forwarded-host'] || <string>req.headers['host'];
+        var key = MockServer.requestKey(req.method, host, req.url);
+        var body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+        });
+        req.on('end', () => {
+            if (this.fixtures.hasOwnProperty(key)) {
+                var fixture = this.fixtures[key];
+                if (fixture.request.json !== undefined && !MockServer.sameJson(fixture.request.json, body)) {
+                    res.writeHead(400, {'Content-Type': 'application/json;charset=utf-8'});
+                    res.end(JSON.stringify({status: {status_code: 400, message: `Body doesn't match the fixture of ${key}: ${body}`}}));
+                } else {
+                    MockServer.respond(res, fixture);
+                }
+            } else if (this.options.record) {
+                this.record(req, host, body, res);
+            } else {
+                res.writeHead(404, {'Content-Type': 'application/json;charset=utf-8'});
+                res.end(JSON.stringify({status: {status_code: 404, message: `No fixture for ${key}`}}));
+            }
+        });
+    }
+
+    private record(req:http.IncomingMessage, host:string, body:string, res:http.ServerResponse) {
+        var hostParts = host.split(':');
+        var headers:{[name:string]:string} = {};
+        if (req.headers['content-type']) {
+            headers['Content-Type'] = <string>req.headers['content-type'];
+        }
+        if (req.headers['x-riot-token']) {
+            headers['X-Riot-Token'] = <string>req.headers['x-riot-token'];
+        }
+        this.recordTransport.request({
+            method: req.method,
+            protocol: `${req.headers['x-forwarded-proto'] || 'https'}:`,
+            hostname: hostParts[0],
+            port: hostParts[1] ? Number(hostParts[1]) : undefined,
+            path: req.url,
+            headers: headers,
+            body: body
+        }, (error:Error, response:TransportResponse) => {
+            if (error) {
+                res.writeHead(502, {'Content-Type': 'text/plain'});
+                res.end(error.message);
+                return;
+            }
+            var keyless = MockServer.requestKey(req.method, host, req.url).replace(/^\S+ [^\/]*/, '');
+            var fixture:Fixture = {
+                request: {method: req.method, host: host, path: keyless},
+                response: {statusCode: response.statusCode, headers: {}}
+            };
+            if (body) {
+                try {
+                    fixture.request.json = JSON.parse(body);
+                } catch (e) {
+                    // Bodies that aren't JSON aren't checked
+                }
+            }
+            MockServer.recordedHeaders.forEach((name) => {
+                if (response.headers[name] != null) {
+                    fixture.response.headers[name] = response.headers[name];
+                }
+            });
+            try {
+                fixture.response.json = JSON.parse(response.body);
+            } catch (e) {
+                fixture.response.body = response.body;
+            }
+            this.save(fixture);
+            MockServer.respond(res, fixture);
+        });
+    }
+
+    private save(fixture:Fixture) {
+        var key = MockServer.requestKey(fixture.request.method, fixture.request.host, fixture.request.path);
+        var hash = crypto.createHash('sha1').update(key).digest('hex').substr(0, 8);
+        var name = key.replace(/[^a-zA-Z0-9.-]+/g, '_').substr(0, 100) + `-${hash}.json`;
+        if (!fs.existsSync(this.directory)) {
+            fs.mkdirSync(this.directory);
+        }
+        fs.writeFileSync(path.join(this.directory, name), JSON.stringify(fixture, null, 2) + '\n');
+        this.add(fixture);
+    }
+
+    private static sameJson(expected:any, body:string):boolean {
+        try {
+            return JSON.stringify(JSON.parse(body)) == JSON.stringify(expected);
+        } catch (e) {
+            return false;
+        }
+    }
+
+    private static respond(res:http.ServerResponse, fixture:Fixture) {
+        var body = fixture.response.json !== undefined ? JSON.stringify(fixture.response.json) : (fixture.response.body || '');
+        res.writeHead(fixture.response.statusCode, fixture.response.headers);
+        res.end(body);
+    }
+}
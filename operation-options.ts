@@ -0,0 +1,275 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * A ranked queue the match list can be filtered on
+ */
+export type RankedQueue = "RANKED_SOLO_5x5" | "RANKED_TEAM_3x3" | "RANKED_TEAM_5x5" | "TEAM_BUILDER_DRAFT_RANKED_5x5";
+
+/**
+ * A season the match list and the stats can be filtered on
+ */
+export type Season = "PRESEASON3" | "SEASON3" | "PRESEASON2014" | "SEASON2014" | "PRESEASON2015" | "SEASON2015" |
+    "PRESEASON2016" | "SEASON2016";
+
+/**
+ * Tag asking for additional data of the champions
+ */
+export type ChampionDataTag = "all" | "allytips" | "altimages" | "blurb" | "enemytips" | "image" | "info" | "lore" |
+    "partype" | "passive" | "recommended" | "skins" | "spells" | "stats" | "tags";
+
+/**
+ * Tag asking for additional data of an item
+ */
+export type ItemDataTag = "all" | "colloq" | "consumeOnFull" | "consumed" | "depth" | "effect" | "from" | "gold" |
+    "hideFromAll" | "image" | "inStore" | "into" | "maps" | "requiredChampion" | "sanitizedDescription" |
+    "specialRecipe" | "stacks" | "stats" | "tags";
+
+/**
+ * Tag asking for additional data of the item list
+ */
+export type ItemListDataTag = ItemDataTag | "groups" | "tree";
+
+/**
+ * Tag asking for additional data of a mastery
+ */
+export type MasteryDataTag = "all" | "image" | "masteryTree" | "prereq" | "ranks" | "sanitizedDescription";
+
+/**
+ * Tag asking for additional data of the mastery list
+ */
+export type MasteryListDataTag = MasteryDataTag | "tree";
+
+/**
+ * Tag asking for additional data of a rune
+ */
+export type RuneDataTag = "all" | "colloq" | "consumeOnFull" | "consumed" | "depth" | "from" | "gold" | "hideFromAll" |
+    "image" | "inStore" | "into" | "maps" | "requiredChampion" | "sanitizedDescription" | "specialRecipe" | "stacks" |
+    "stats" | "tags";
+
+/**
+ * Tag asking for additional data of the rune list
+ */
+export type RuneListDataTag = RuneDataTag | "basic";
+
+/**
+ * Tag asking for additional data of the summoner spells
+ */
+export type SpellDataTag = "all" | "cooldown" | "cooldownBurn" | "cost" | "costBurn" | "costType" | "effect" |
+    "effectBurn" | "image" | "key" | "leveltip" | "maxrank" | "modes" | "range" | "rangeBurn" | "resource" |
+    "sanitizedDescription" | "sanitizedTooltip" | "tooltip" | "vars";
+
+/**
+ * Options of `getChampionsStatus`
+ */
+export interface ChampionsStatusOptions {
+    /**
+     * Only the champions free to play this week
+     */
+    freeToPlay?:boolean;
+}
+
+/**
+ * Options of `getTopChampions`
+ */
+export interface TopChampionsOptions {
+    /**
+     * Number of champions to retrieve. Defaults to 3.
+     */
+    count?:number;
+}
+
+/**
+ * Options shared by the static data operations
+ */
+export interface StaticDataOptions {
+    /**
+     * Locale of the data, such as "en_US". Defaults to the locale of the region.
+     */
+    locale?:string;
+    /**
+     * Data dragon version of the data. Defaults to the latest version of the region.
+     */
+    version?:string;
+}
+
+/**
+ * Options of `getChampions`
+ */
+export interface ChampionListOptions extends StaticDataOptions {
+    /**
+     * Set to true to key the champions by id instead of by key
+     */
+    dataById?:boolean;
+    /**
+     * Additional data to retrieve
+     */
+    champData?:ChampionDataTag|ChampionDataTag[];
+}
+
+/**
+ * Options of `getChampionById`
+ */
+export interface ChampionOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    champData?:ChampionDataTag|ChampionDataTag[];
+}
+
+/**
+ * Options of `getItems`
+ */
+export interface ItemListOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    itemListData?:ItemListDataTag|ItemListDataTag[];
+}
+
+/**
+ * Options of `getItemById`
+ */
+export interface ItemOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    itemData?:ItemDataTag|ItemDataTag[];
+}
+
+/**
+ * Options of `getMasteries`
+ */
+export interface MasteryListOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    masteryListData?:MasteryListDataTag|MasteryListDataTag[];
+}
+
+/**
+ * Options of `getMasteryById`
+ */
+export interface MasteryOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    masteryData?:MasteryDataTag|MasteryDataTag[];
+}
+
+/**
+ * Options of `getRunes`
+ */
+export interface RuneListOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    runeListData?:RuneListDataTag|RuneListDataTag[];
+}
+
+/**
+ * Options of `getRuneById`
+ */
+export interface RuneOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    runeData?:RuneDataTag|RuneDataTag[];
+}
+
+/**
+ * Options of `getSummonerSpells`
+ */
+export interface SummonerSpellListOptions extends StaticDataOptions {
+    /**
+     * Set to true to key the spells by id instead of by key
+     */
+    dataById?:boolean;
+    /**
+     * Additional data to retrieve
+     */
+    spellData?:SpellDataTag|SpellDataTag[];
+}
+
+/**
+ * Options of `getSummonerSpellById`
+ */
+export interface SummonerSpellOptions extends StaticDataOptions {
+    /**
+     * Additional data to retrieve
+     */
+    spellData?:SpellDataTag|SpellDataTag[];
+}
+
+/**
+ * Options of `getMatchById`
+ */
+export interface MatchOptions {
+    /**
+     * Set to true to retrieve the timeline of the match
+     */
+    includeTimeline?:boolean;
+}
+
+/**
+ * Options of `getMatchByIdAndTournamentCode`
+ */
+export interface TournamentMatchOptions extends MatchOptions {
+    /**
+     * Tournament code the match was played with
+     */
+    tournamentCode:string;
+}
+
+/**
+ * Filters of the match list of a summoner
+ */
+export interface MatchListFilters {
+    /**
+     * Only the matches played with one of these champions
+     */
+    championIds?:number[];
+    /**
+     * Only the matches of one of these queues
+     */
+    rankedQueues?:RankedQueue[];
+    /**
+     * Only the matches of one of these seasons
+     */
+    seasons?:Season[];
+    /**
+     * Only the matches played after this time, as a Date or in milliseconds since the epoch
+     */
+    beginTime?:Date|number;
+    /**
+     * Only the matches played before this time, as a Date or in milliseconds since the epoch
+     */
+    endTime?:Date|number;
+}
+
+/**
+ * Options of `getMatchesBySummonerId`
+ */
+export interface MatchListOptions extends MatchListFilters {
+    /**
+     * Index of the first match, 0 being the most recent one
+     */
+    beginIndex?:number;
+    /**
+     * Index following the last match
+     */
+    endIndex?:number;
+}
+
+/**
+ * Options of `getRankedBySummonerId` and `getSummaryBySummonerId`
+ */
+export interface StatsOptions {
+    /**
+     * Season of the stats. Defaults to the current season.
+     */
+    season?:Season;
+}
@@ -0,0 +1,29 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * Helpers for the methods taking an optional callback, which return a Promise when none is given
+ */
+export class Promises {
+
+    /**
+     * Runs a call taking a callback, and gives its result as a Promise.
+     *
+     * @param run Starts the call, and calls the callback with its result
+     * @returns {Promise<T>} Resolved with the data given to the callback, or rejected with its error
+     */
+    public static fromCallback<T>(run:(callback:(error:Error, data:T)=>void)=>void):Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            run((error:Error, data:T) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(data);
+                }
+            });
+        });
+    }
+}
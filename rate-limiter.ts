@@ -0,0 +1,247 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * A number of requests allowed during a window of time
+ */
+export interface RateLimit {
+    /**
+     * Number of requests allowed during the window
+     */
+    requests:number;
+    /**
+     * Duration of the window, in seconds
+     */
+    seconds:number;
+}
+
+/**
+ * Bucket of tokens that refills continuously, up to the number of requests its limit allows
+ */
+class TokenBucket {
+    private tokens:number;
+    private lastRefill:number;
+
+    constructor(public limit:RateLimit) {
+        this.tokens = limit.requests;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Computes the time to wait before enough tokens are available.
+     *
+     * @param count Number of tokens needed
+     * @returns {number} Time to wait, in milliseconds
+     */
+    public waitTime(count:number = 1):number {
+        this.refill();
+        if (this.tokens >= count) {
+            return 0;
+        }
+        return Math.ceil((count - this.tokens) * this.limit.seconds * 1000 / this.limit.requests);
+    }
+
+    public take() {
+        this.refill();
+        this.tokens -= 1;
+    }
+
+    /**
+     * Lowers the tokens left so that they don't exceed what the server reports.
+     *
+     * @param count Number of requests the server counted in the current window
+     */
+    public sync(count:number) {
+        this.refill();
+        this.tokens = Math.min(this.tokens, this.limit.requests - count);
+    }
+
+    private refill() {
+        var now = Date.now();
+        var refilled = (now - this.lastRefill) * this.limit.requests / (this.limit.seconds * 1000);
+        this.tokens = Math.min(this.limit.requests, this.tokens + refilled);
+        this.lastRefill = now;
+    }
+}
+
+/**
+ * Requests waiting for the same buckets
+ */
+class RateLimitedQueue {
+    public tasks:(()=>void)[] = [];
+    public pausedUntil:number = 0;
+    public timer:any = null;
+
+    constructor(public buckets:TokenBucket[]) {
+    }
+}
+
+/**
+ * Paces requests so that they stay within the rate limits of a key.
+ *
+ * Requests are grouped by bucket name (typically a region) : each name has its own set of limits, and requests of a
+ * same name are run in the order they were scheduled.
+ */
+export class RateLimiter {
+    /**
+     * Limits of a development key
+     */
+    public static DEVELOPMENT_LIMITS:RateLimit[] = [
+        {requests: 10, seconds: 10},
+        {requests: 500, seconds: 600}
+    ];
+
+    private queues:{[name:string]:RateLimitedQueue} = {};
+
+    /**
+     * Creates a RateLimiter applying the same limits to every bucket.
+     *
+     * @param limits Limits to apply to each bucket. Can be updated by the headers of the responses.
+     */
+    constructor(private limits:RateLimit[] = []) {
+    }
+
+    /**
+     * Parses limits written as in the rate limit headers, such as "10:10,500:600".
+     *
+     * @param header List of `requests:seconds` pairs, separated by commas
+     * @returns {RateLimit[]}
+     */
+    public static parseLimits(header:string):RateLimit[] {
+        return RateLimiter.parsePairs(header).map((pair) => {
+            return {requests: pair[0], seconds: pair[1]};
+        });
+    }
+
+    /**
+     * Runs a task as soon as it fits in the limits of its bucket.
+     *
+     * @param name Name of the bucket the task counts against
+     * @param task Task to run
+     */
+    public schedule(name:string, task:()=>void) {
+        var queue = this.queue(name);
+        queue.tasks.push(task);
+        this.dequeue(queue);
+    }
+
+    /**
+     * Gives a bucket its own limits, instead of the ones of the limiter. Does nothing if the bucket is already used.
+     *
+     * @param name Name of the bucket
+     * @param limits Limits of the bucket. Can be updated by the headers of the responses.
+     */
+    public declare(name:string, limits:RateLimit[]) {
+        if (!this.queues[name]) {
+            this.queues[name] = new RateLimitedQueue(limits.map((limit) => new TokenBucket(limit)));
+        }
+    }
+
+    /**
+     * Adapts a bucket to the headers of a response.
+     *
+     * `X-App-Rate-Limit` replaces the limits of the bucket, `X-Rate-Limit-Count` and `X-App-Rate-Limit-Count` lower
+     * the remaining requests to what the server counted, and `Retry-After` pauses the bucket.
+     *
+     * @param name Name of the bucket the response counted against
+     * @param headers Headers of the response
+     */
+    public update(name:string, headers:Object) {
+        if (!headers) {
+            return;
+        }
+        var queue = this.queue(name);
+        if (headers['x-app-rate-limit']) {
+            var limits = RateLimiter.parseLimits(headers['x-app-rate-limit']);
+            if (!RateLimiter.sameLimits(limits, queue.buckets.map((bucket) => bucket.limit))) {
+                queue.buckets = limits.map((limit) => new TokenBucket(limit));
+            }
+        }
+        var counts = headers['x-app-rate-limit-count'] || headers['x-rate-limit-count'];
+        if (counts) {
+            RateLimiter.parsePairs(counts).forEach((pair) => {
+                queue.buckets.forEach((bucket) => {
+                    if (bucket.limit.seconds == pair[1]) {
+                        bucket.sync(pair[0]);
+                    }
+                });
+            });
+        }
+        if (headers['retry-after']) {
+            queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + Number(headers['retry-after']) * 1000);
+        }
+        this.dequeue(queue);
+    }
+
+    /**
+     * Number of tasks waiting to be run in a bucket.
+     *
+     * @param name Name of the bucket
+     * @returns {number}
+     */
+    public pending(name:string):number {
+        return this.queues[name] ? this.queues[name].tasks.length : 0;
+    }
+
+    /**
+     * Estimates the time a task scheduled now in a bucket would wait, behind the tasks already waiting.
+     *
+     * @param name Name of the bucket
+     * @returns {number} Time to wait, in milliseconds
+     */
+    public waitTime(name:string):number {
+        var queue = this.queue(name);
+        var wait = Math.max(0, queue.pausedUntil - Date.now());
+        queue.buckets.forEach((bucket) => {
+            wait = Math.max(wait, bucket.waitTime(queue.tasks.length + 1));
+        });
+        return wait;
+    }
+
+    private queue(name:string):RateLimitedQueue {
+        if (!this.queues[name]) {
+            this.queues[name] = new RateLimitedQueue(this.limits.map((limit) => new TokenBucket(limit)));
+        }
+        return this.queues[name];
+    }
+
+    private dequeue(queue:RateLimitedQueue) {
+        if (queue.timer) {
+            return;
+        }
+        while (queue.tasks.length > 0) {
+            var wait = Math.max(0, queue.pausedUntil - Date.now());
+            queue.buckets.forEach((bucket) => {
+                wait = Math.max(wait, bucket.waitTime());
+            });
+            if (wait > 0) {
+                queue.timer = setTimeout(() => {
+                    queue.timer = null;
+                    this.dequeue(queue);
+                }, wait);
+                return;
+            }
+            queue.buckets.forEach((bucket) => {
+                bucket.take();
+            });
+            queue.tasks.shift()();
+        }
+    }
+
+    private static parsePairs(header:string):number[][] {
+        return String(header).split(",").map((pair) => {
+            return pair.split(":").map((value) => Number(value));
+        }).filter((pair) => {
+            return pair.length == 2 && !isNaN(pair[0]) && !isNaN(pair[1]);
+        });
+    }
+
+    private static sameLimits(a:RateLimit[], b:RateLimit[]):boolean {
+        return a.length == b.length && a.every((limit, i) => {
+            return limit.requests == b[i].requests && limit.seconds == b[i].seconds;
+        });
+    }
+}
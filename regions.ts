@@ -0,0 +1,127 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * A region of the API
+ */
+export type Region = "br" | "eune" | "euw" | "kr" | "lan" | "las" | "na" | "oce" | "tr" | "ru" | "pbe";
+
+/**
+ * A platform of the API, used by the championmastery and current-game endpoints
+ */
+export type PlatformId = "BR1" | "EUN1" | "EUW1" | "KR" | "LA1" | "LA2" | "NA1" | "OC1" | "TR1" | "RU" | "PBE1";
+
+/**
+ * An error that happens when a region or a platform id isn't valid
+ */
+export class InvalidRegionError implements Error {
+    public name:string = "InvalidRegionError";
+
+    constructor(public message:string, public value:string) {
+    }
+}
+
+/**
+ * Validates regions and platform ids, and converts them into each other
+ */
+export class Regions {
+    /**
+     * All the regions
+     */
+    public static REGIONS:Region[] = ["br", "eune", "euw", "kr", "lan", "las", "na", "oce", "tr", "ru", "pbe"];
+
+    /**
+     * All the platform ids
+     */
+    public static PLATFORM_IDS:PlatformId[] = ["BR1", "EUN1", "EUW1", "KR", "LA1", "LA2", "NA1", "OC1", "TR1", "RU", "PBE1"];
+
+    private static platforms:{[region:string]:PlatformId} = {
+        'br': 'BR1',
+        'eune': 'EUN1',
+        'euw': 'EUW1',
+        'kr': 'KR',
+        'lan': 'LA1',
+        'las': 'LA2',
+        'na': 'NA1',
+        'oce': 'OC1',
+        'tr': 'TR1',
+        'ru': 'RU',
+        'pbe': 'PBE1'
+    };
+
+    /**
+     * Tells whether a value is a region, ignoring its case.
+     *
+     * @param value Value to check
+     * @returns {boolean}
+     */
+    public static isRegion(value:string):boolean {
+        return typeof value === "string" && Regions.platforms.hasOwnProperty(value.toLowerCase());
+    }
+
+    /**
+     * Tells whether a value is a platform id, ignoring its case.
+     *
+     * @param value Value to check
+     * @returns {boolean}
+     */
+    public static isPlatformId(value:string):boolean {
+        return typeof value === "string" && Regions.PLATFORM_IDS.indexOf(<PlatformId>value.toUpperCase()) != -1;
+    }
+
+    /**
+     * Parses a region, ignoring its case.
+     *
+     * @param value Region to parse, such as "euw" or "EUW"
+     * @returns {Region}
+     * @throws {InvalidRegionError} If the value isn't a region
+     */
+    public static parseRegion(value:string):Region {
+        if (Regions.isRegion(value)) {
+            return <Region>value.toLowerCase();
+        }
+        var hint = Regions.isPlatformId(value) ? ` Did you mean "${Regions.regionOf(value)}" ?` : "";
+        throw new InvalidRegionError(`"${value}" is not a valid region.${hint} Valid regions are ${Regions.REGIONS.join(", ")}.`, value);
+    }
+
+    /**
+     * Parses a platform id, ignoring its case.
+     *
+     * @param value Platform id to parse, such as "EUW1" or "euw1"
+     * @returns {PlatformId}
+     * @throws {InvalidRegionError} If the value isn't a platform id
+     */
+    public static parsePlatformId(value:string):PlatformId {
+        if (Regions.isPlatformId(value)) {
+            return <PlatformId>value.toUpperCase();
+        }
+        var hint = Regions.isRegion(value) ? ` Did you mean "${Regions.platformOf(value)}" ?` : "";
+        throw new InvalidRegionError(`"${value}" is not a valid platform id.${hint} Valid platform ids are ${Regions.PLATFORM_IDS.join(", ")}.`, value);
+    }
+
+    /**
+     * Finds the platform id of a region.
+     *
+     * @param region Region, in any case
+     * @returns {PlatformId}
+     * @throws {InvalidRegionError} If the value isn't a region
+     */
+    public static platformOf(region:string):PlatformId {
+        return Regions.platforms[Regions.parseRegion(region)];
+    }
+
+    /**
+     * Finds the region of a platform id.
+     *
+     * @param platformId Platform id, in any case
+     * @returns {Region}
+     * @throws {InvalidRegionError} If the value isn't a platform id
+     */
+    public static regionOf(platformId:string):Region {
+        var platform = Regions.parsePlatformId(platformId);
+        return Regions.REGIONS.filter((region) => Regions.platforms[region] == platform)[0];
+    }
+}
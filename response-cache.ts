@@ -0,0 +1,223 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * Storage of cached responses.
+ *
+ * Implement it to keep the responses somewhere else than in memory, such as in Redis or in files.
+ */
+export interface CacheStore {
+    /**
+     * Gets a value from the store.
+     *
+     * @param key Key of the value
+     * @param callback Called with the value, or null if there is no (fresh) value for this key
+     */
+    get(key:string, callback:(error:Error, value:string)=>void):void;
+
+    /**
+     * Puts a value in the store.
+     *
+     * @param key Key of the value
+     * @param value Value to store
+     * @param ttl Time during which the value is fresh, in seconds
+     * @param callback Called once the value is stored
+     */
+    set(key:string, value:string, ttl:number, callback?:(error:Error)=>void):void;
+}
+
+/**
+ * Value stored in a LruCacheStore
+ */
+interface LruEntry {
+    key:string;
+    value:string;
+    expires:number;
+    newer:LruEntry;
+    older:LruEntry;
+}
+
+/**
+ * In-memory store that discards the least recently used values when full
+ */
+export class LruCacheStore implements CacheStore {
+    private entries:{[key:string]:LruEntry} = {};
+    private newest:LruEntry = null;
+    private oldest:LruEntry = null;
+    private size:number = 0;
+
+    /**
+     * Creates an empty store.
+     *
+     * @param maxEntries Maximum number of values kept in the store
+     */
+    constructor(public maxEntries:number = 500) {
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public get(key:string, callback:(error:Error, value:string)=>void) {
+        var entry = this.entries.hasOwnProperty(key) ? this.entries[key] : null;
+        if (entry && entry.expires <= Date.now()) {
+            this.remove(entry);
+            entry = null;
+        }
+        if (entry) {
+            this.remove(entry);
+            this.add(entry);
+        }
+        callback(null, entry ? entry.value : null);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public set(key:string, value:string, ttl:number, callback?:(error:Error)=>void) {
+        if (this.entries.hasOwnProperty(key)) {
+            this.remove(this.entries[key]);
+        }
+        this.add({key: key, value: value, expires: Date.now() + ttl * 1000, newer: null, older: null});
+        while (this.size > this.maxEntries) {
+            this.remove(this.oldest);
+        }
+        if (callback) {
+            callback(null);
+        }
+    }
+
+    private add(entry:LruEntry) {
+        entry.older = this.newest;
+        entry.newer = null;
+        if (this.newest) {
+            this.newest.newer = entry;
+        }
+        this.newest = entry;
+        if (!this.oldest) {
+            this.oldest = entry;
+        }
+        this.entries[entry.key] = entry;
+        this.size++;
+    }
+
+    private remove(entry:LruEntry) {
+        if (entry.newer) {
+            entry.newer.older = entry.older;
+        } else {
+            this.newest = entry.older;
+        }
+        if (entry.older) {
+            entry.older.newer = entry.newer;
+        } else {
+            this.oldest = entry.newer;
+        }
+        delete this.entries[entry.key];
+        this.size--;
+    }
+}
+
+/**
+ * Options of a ResponseCache
+ */
+export interface CacheOptions {
+    /**
+     * Where the responses are stored. Defaults to a LruCacheStore.
+     */
+    store?:CacheStore;
+    /**
+     * Time during which responses are kept, in seconds, by endpoint family (such as "lol-static-data").
+     * Families not given here keep their default time. A time of 0 disables the cache for a family.
+     */
+    ttls?:{[family:string]:number};
+}
+
+/**
+ * Caches the responses of the API according to the family of their endpoint
+ */
+export class ResponseCache {
+    /**
+     * Default time during which the responses of each endpoint family are kept, in seconds
+     */
+    public static DEFAULT_TTLS:{[family:string]:number} = {
+        "champion": 3600,
+        "championmastery": 600,
+        "current-game": 30,
+        "featured-games": 30,
+        "game": 600,
+        "league": 600,
+        "lol-static-data": 86400,
+        "lol-status": 60,
+        "match": 86400,
+        "match-by-tournament": 0,
+        "matchlist": 600,
+        "stats": 600,
+        "summoner": 3600,
+        "team": 3600,
+        "tournament-provider": 0
+    };
+
+    public store:CacheStore;
+    private ttls:{[family:string]:number} = {};
+
+    /**
+     * Creates a ResponseCache from its options.
+     *
+     * @param options Options of the cache
+     */
+    constructor(options:CacheOptions = {}) {
+        this.store = options.store || new LruCacheStore();
+        var family:string;
+        for (family in ResponseCache.DEFAULT_TTLS) {
+            this.ttls[family] = ResponseCache.DEFAULT_TTLS[family];
+        }
+        for (family in options.ttls) {
+            this.ttls[family] = options.ttls[family];
+        }
+    }
+
+    /**
+     * Finds the endpoint family a path belongs to.
+     *
+     * @param path Path of the request
+     * @returns {string} Name of the family, or null if it isn't known
+     */
+    public static family(path:string):string {
+        var match:string[];
+        if (path.indexOf("/api/lol/static-data/") == 0) {
+            return "lol-static-data";
+        } else if (path.indexOf("/championmastery/") == 0) {
+            return "championmastery";
+        } else if (path.indexOf("/observer-mode/rest/consumer/getSpectatorGameInfo/") == 0) {
+            return "current-game";
+        } else if (path.indexOf("/observer-mode/rest/featured") == 0) {
+            return "featured-games";
+        } else if (path.indexOf("/tournament/") == 0) {
+            return "tournament-provider";
+        } else if (/^\/api\/lol\/[^\/]+\/v[\d.]+\/match\/by-tournament\//.test(path)) {
+            // Grows as the games of the code end
+            return "match-by-tournament";
+        } else if (path.indexOf("/shards") == 0) {
+            return "lol-status";
+        } else if (match = /^\/api\/lol\/[^\/]+\/v[\d.]+\/([a-z-]+)/.exec(path)) {
+            return match[1];
+        }
+        return null;
+    }
+
+    /**
+     * Computes the time during which the response to a request is kept.
+     *
+     * @param method HTTP method of the request
+     * @param path Path of the request
+     * @returns {number} Time in seconds. 0 if the response must not be cached.
+     */
+    public ttl(method:string, path:string):number {
+        if (method != 'GET') {
+            return 0;
+        }
+        return this.ttls[ResponseCache.family(path)] || 0;
+    }
+}
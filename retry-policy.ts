@@ -0,0 +1,103 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+/**
+ * Options of a RetryPolicy
+ */
+export interface RetryOptions {
+    /**
+     * Maximum number of attempts of a request, including the first one. Defaults to 3.
+     */
+    maxAttempts?:number;
+    /**
+     * Time to wait before retrying, in milliseconds, given the number of the attempt that failed.
+     * Defaults to an exponential backoff starting at one second.
+     */
+    backoff?:(attempt:number)=>number;
+    /**
+     * HTTP status codes of the errors to retry. Defaults to 429, 500 and 503.
+     */
+    statusCodes?:number[];
+    /**
+     * Codes of the network errors to retry, such as "ECONNRESET".
+     */
+    networkErrors?:string[];
+}
+
+/**
+ * Decides whether and when a failed request is sent again
+ */
+export class RetryPolicy {
+    public static DEFAULT_STATUS_CODES:number[] = [429, 500, 503];
+    public static DEFAULT_NETWORK_ERRORS:string[] = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"];
+
+    public maxAttempts:number;
+    public backoff:(attempt:number)=>number;
+    public statusCodes:number[];
+    public networkErrors:string[];
+
+    /**
+     * Creates a RetryPolicy from its options.
+     *
+     * @param options Options of the policy. Missing options take their default value.
+     */
+    constructor(options:RetryOptions = {}) {
+        this.maxAttempts = options.maxAttempts != null ? options.maxAttempts : 3;
+        this.backoff = options.backoff || RetryPolicy.exponential(1000);
+        this.statusCodes = options.statusCodes || RetryPolicy.DEFAULT_STATUS_CODES;
+        this.networkErrors = options.networkErrors || RetryPolicy.DEFAULT_NETWORK_ERRORS;
+    }
+
+    /**
+     * Creates a policy that never retries.
+     *
+     * @returns {RetryPolicy}
+     */
+    public static none():RetryPolicy {
+        return new RetryPolicy({maxAttempts: 1});
+    }
+
+    /**
+     * Creates an exponential backoff curve.
+     *
+     * @param initial Time to wait after the first attempt, in milliseconds
+     * @param max Maximum time to wait, in milliseconds
+     * @returns {(attempt:number)=>number}
+     */
+    public static exponential(initial:number, max:number = 30000):(attempt:number)=>number {
+        return (attempt:number) => Math.min(initial * Math.pow(2, attempt - 1), max);
+    }
+
+    /**
+     * Computes the time to wait before retrying a failed request.
+     *
+     * A 429 error waits for the time given by its `retryAfter` when there is one. Requests other than GET are only
+     * retried after a 429 error, as the server may have processed them otherwise.
+     *
+     * @param error Error the request failed with
+     * @param attempt Number of the attempt that failed, starting at 1
+     * @param method HTTP method of the request
+     * @returns {number} Time to wait in milliseconds, or null if the request must not be retried
+     */
+    public retryDelay(error:any, attempt:number, method:string = 'GET'):number {
+        if (!error || attempt >= this.maxAttempts) {
+            return null;
+        }
+        if (typeof error.code === "number") {
+            if (this.statusCodes.indexOf(error.code) == -1 || (error.code != 429 && method != 'GET')) {
+                return null;
+            }
+            if (error.code == 429 && error.retryAfter != null && !isNaN(Number(error.retryAfter))) {
+                return Number(error.retryAfter) * 1000;
+            }
+            return this.backoff(attempt);
+        }
+        if (typeof error.code === "string" && this.networkErrors.indexOf(error.code) != -1 && method == 'GET') {
+            return this.backoff(attempt);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import {ApiKey} from './api-key';
+import {LeagueTypenode, LeagueTypenodeOptions} from './index';
+import {Promises} from './promises';
+import {StaticDataSnapshot, SnapshotManifest, SnapshotOptions} from './static-data-snapshot';
+
+/**
+ * Arguments of the `league-typenode-snapshot` command
+ */
+export interface SnapshotArguments {
+    /**
+     * Directory the snapshot is written to
+     */
+    directory:string;
+    /**
+     * Region to retrieve the static data from. Defaults to "euw".
+     */
+    region:string;
+    options:SnapshotOptions;
+}
+
+/**
+ * The `league-typenode-snapshot` command, downloading a static data snapshot from the command line.
+ *
+ * The API key is read from the RIOT_API_KEY environment variable.
+ */
+export class SnapshotCli {
+    /**
+     * Environment variable the API key is read from
+     */
+    public static KEY_VARIABLE = "RIOT_API_KEY";
+
+    public static USAGE = "Usage : league-typenode-snapshot <directory> [--version <version>] [--locale <locale>] [--region <region>]";
+
+    /**
+     * Reads the arguments of the command.
+     *
+     * @param args Arguments given after the name of the command
+     * @returns {SnapshotArguments}
+     * @throws Error if the arguments are invalid
+     */
+    public static parse(args:string[]):SnapshotArguments {
+        var parsed:SnapshotArguments = {directory: null, region: "euw", options: {}};
+        for (var i = 0; i < args.length; i++) {
+            var arg = args[i];
+            if (arg.indexOf("--") != 0) {
+                if (parsed.directory != null) {
+                    throw new Error(`Unexpected argument ${arg}\n${SnapshotCli.USAGE}`);
+                }
+                parsed.directory = arg;
+                continue;
+            }
+            var value = args[++i];
+            if (value == null || value.indexOf("--") == 0) {
+                throw new Error(`Missing the value of ${arg}\n${SnapshotCli.USAGE}`);
+            }
+            if (arg == "--version") {
+                parsed.options.version = value;
+            } else if (arg == "--locale") {
+                parsed.options.locale = value;
+            } else if (arg == "--region") {
+                parsed.region = value;
+            } else {
+                throw new Error(`Unknown option ${arg}\n${SnapshotCli.USAGE}`);
+            }
+        }
+        if (parsed.directory == null) {
+            throw new Error(`Missing the directory\n${SnapshotCli.USAGE}`);
+        }
+        return parsed;
+    }
+
+    /**
+     * Downloads the snapshot the arguments ask for.
+     *
+     * @param args Arguments given after the name of the command
+     * @param options Options of the instance retrieving the static data
+     * @param callback Called with the manifest of the snapshot once it is written
+     */
+    public static run(args:string[], options:LeagueTypenodeOptions = {}, callback?:(error:Error, manifest:SnapshotManifest)=>void):Promise<SnapshotManifest> {
+        if (!callback) {
+            return Promises.fromCallback<SnapshotManifest>((callback) => SnapshotCli.run(args, options, callback));
+        }
+        try {
+            var parsed = SnapshotCli.parse(args);
+            var tn = new LeagueTypenode(ApiKey.fromEnv(SnapshotCli.KEY_VARIABLE), options);
+        } catch (e) {
+            callback(e, null);
+            return;
+        }
+        StaticDataSnapshot.download(tn, parsed.region, parsed.directory, parsed.options, callback);
+    }
+}
+
+if (require.main === module) {
+    var args = process.argv.slice(2);
+    SnapshotCli.run(args, {}, (error:Error, manifest:SnapshotManifest) => {
+        if (error) {
+            console.error(error.message);
+            process.exit(1);
+        }
+        console.log(`Snapshot of ${manifest.version} in ${manifest.locale} written to ${SnapshotCli.parse(args).directory}`);
+    });
+}
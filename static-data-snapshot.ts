@@ -0,0 +1,257 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as url from 'url';
+import * as api from 'league-typedef';
+import {LeagueTypenode} from './index';
+import {Promises} from './promises';
+import {Regions} from './regions';
+import {Transport, TransportRequest, TransportResponse} from './transport';
+
+/**
+ * What a snapshot holds, as written in its `manifest.json` file
+ */
+export interface SnapshotManifest {
+    /**
+     * Region the static data was retrieved from
+     */
+    region:string;
+    version:string;
+    locale:string;
+    /**
+     * Time the snapshot was taken, in milliseconds since the epoch
+     */
+    created:number;
+}
+
+/**
+ * Options of a snapshot
+ */
+export interface SnapshotOptions {
+    /**
+     * Data dragon version to retrieve. Defaults to the latest version of the region.
+     */
+    version?:string;
+    /**
+     * Locale to retrieve, such as "en_US". Defaults to the locale of the region.
+     */
+    locale?:string;
+}
+
+/**
+ * Downloads the static data of a version and a locale into a directory of JSON files, to serve it later without any
+ * request through a SnapshotTransport.
+ */
+export class StaticDataSnapshot {
+    /**
+     * Name of the file describing the snapshot
+     */
+    public static MANIFEST = "manifest.json";
+
+    /**
+     * Downloads a snapshot. Every additional data of the champions, items, masteries, runes and summoner spells is
+     * retrieved, so that the snapshot can answer any tag.
+     *
+     * @param tn Instance used to retrieve the static data
+     * @param region Region to retrieve the static data from
+     * @param directory Directory the JSON files are written to. It is created if needed.
+     * @param options Version and locale to retrieve
+     * @param callback Called with the manifest of the snapshot once every file is written
+     */
+    public static download(tn:LeagueTypenode, region:string, directory:string, options:SnapshotOptions = {}, callback?:(error:Error, manifest:SnapshotManifest)=>void):Promise<SnapshotManifest> {
+        if (!callback) {
+            return Promises.fromCallback<SnapshotManifest>((callback) => StaticDataSnapshot.download(tn, region, directory, options, callback));
+        }
+        region = Regions.parseRegion(region);
+        tn.getVersions(region, (error:Error, versions:string[]) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            tn.getRealm(region, (error:Error, realm:api.lolStaticData.RealmDto) => {
+                if (error) {
+                    callback(error, null);
+                    return;
+                }
+                var manifest:SnapshotManifest = {
+                    region: region,
+                    version: options.version || versions[0],
+                    locale: options.locale || realm.l,
+                    created: Date.now()
+                };
+                var version = manifest.version;
+                var locale = manifest.locale;
+                var files:{[name:string]:(callback:(error:Error, data:any)=>void)=>void} = {
+                    "champion": (callback) => tn.getChampions(region, {locale: locale, version: version, champData: "all"}, callback),
+                    "item": (callback) => tn.getItems(region, {locale: locale, version: version, itemListData: "all"}, callback),
+                    "language-strings": (callback) => tn.getLanguageStrings(region, {locale: locale, version: version}, callback),
+                    "languages": (callback) => tn.getLanguages(region, callback),
+                    "map": (callback) => tn.getMaps(region, {locale: locale, version: version}, callback),
+                    "mastery": (callback) => tn.getMasteries(region, {locale: locale, version: version, masteryListData: "all"}, callback),
+                    "realm": (callback) => callback(null, realm),
+                    "rune": (callback) => tn.getRunes(region, {locale: locale, version: version, runeListData: "all"}, callback),
+                    "summoner-spell": (callback) => tn.getSummonerSpells(region, {locale: locale, version: version, spellData: "all"}, callback),
+                    "versions": (callback) => callback(null, versions)
+                };
+                fs.mkdir(directory, (error:any) => {
+                    if (error && error.code !== 'EEXIST') {
+                        callback(error, null);
+                        return;
+                    }
+                    var names = Object.keys(files);
+                    var remaining = names.length;
+                    var failed = false;
+                    var written = (error:Error) => {
+                        if (failed) {
+                            return;
+                        }
+                        if (error) {
+                            failed = true;
+                            callback(error, null);
+                        } else if (--remaining == 0) {
+                            // The manifest is written last, so that a directory with a manifest holds a whole snapshot
+                            StaticDataSnapshot.write(directory, StaticDataSnapshot.MANIFEST, manifest, (error:Error) => {
+                                callback(error, error ? null : manifest);
+                            });
+                        }
+                    };
+                    names.forEach((name) => {
+                        files[name]((error:Error, data:any) => {
+                            if (error) {
+                                written(error);
+                            } else {
+                                StaticDataSnapshot.write(directory, `${name}.json`, data, written);
+                            }
+                        });
+                    });
+                });
+            });
+        });
+    }
+
+    private static write(directory:string, fileName:string, data:any, callback:(error:Error)=>void) {
+        fs.writeFile(path.join(directory, fileName), JSON.stringify(data), {encoding: 'utf8'}, callback);
+    }
+}
+
+/**
+ * Transport answering the static data requests from a snapshot, without any network.
+ *
+ * Any other request fails. Requests for another version or locale than the ones of the snapshot are answered with a
+ * 404 error. The snapshot holds every additional data, so responses hold more data than the tags asked for.
+ */
+export class SnapshotTransport implements Transport {
+    /**
+     * What the snapshot holds
+     */
+    public manifest:SnapshotManifest;
+
+    /**
+     * Contents of the files read, by resource
+     */
+    private files:{[resource:string]:any} = {};
+
+    /**
+     * Resources whose entries can be retrieved one by one, with the `/{resource}/{id}` path
+     */
+    private static listed = ["champion", "item", "mastery", "rune", "summoner-spell"];
+
+    /**
+     * Creates a transport for a snapshot.
+     *
+     * @param directory Directory of the snapshot
+     * @throws Error if the directory has no snapshot
+     */
+    constructor(public directory:string) {
+        try {
+            this.manifest = JSON.parse(fs.readFileSync(path.join(directory, StaticDataSnapshot.MANIFEST), 'utf8'));
+        } catch (e) {
+            throw new Error(`No static data snapshot in ${directory} : ${e.message}`);
+        }
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public request(request:TransportRequest, callback:(error:Error, response:TransportResponse)=>void) {
+        var parsed = url.parse(request.path, true);
+        var match = /^\/api\/lol\/static-data\/[^\/]+\/v1\.2\/([^\/]+)(?:\/([^\/]+))?$/.exec(parsed.pathname);
+        if (request.method != 'GET' || !match) {
+            callback(new Error(`Offline : ${request.method} ${parsed.pathname} isn't part of the static data snapshot`), null);
+            return;
+        }
+        var resource = match[1];
+        var id = match[2];
+        var query:any = parsed.query;
+        if ((query.version && query.version != this.manifest.version) || (query.locale && query.locale != this.manifest.locale)) {
+            callback(null, SnapshotTransport.notFound(`The snapshot holds the version ${this.manifest.version} in ${this.manifest.locale}`));
+            return;
+        }
+        if (id != null && SnapshotTransport.listed.indexOf(resource) == -1) {
+            callback(null, SnapshotTransport.notFound(`No ${resource} by id in the snapshot`));
+            return;
+        }
+        this.read(resource, (error:Error, data:any) => {
+            if (error) {
+                callback(error, null);
+            } else if (id != null) {
+                var entry = SnapshotTransport.entries(data).filter((entry) => String(entry.id) == id)[0];
+                callback(null, entry ? SnapshotTransport.ok(entry) : SnapshotTransport.notFound(`No ${resource} ${id} in the snapshot`));
+            } else if (query.dataById == "true" && data.data) {
+                var byId = {};
+                SnapshotTransport.entries(data).forEach((entry) => byId[entry.id] = entry);
+                var copy = {};
+                for (var key in data) {
+                    copy[key] = key == "data" ? byId : data[key];
+                }
+                callback(null, SnapshotTransport.ok(copy));
+            } else {
+                callback(null, SnapshotTransport.ok(data));
+            }
+        });
+    }
+
+    /**
+     * Reads the file of a resource, once
+     */
+    private read(resource:string, callback:(error:Error, data:any)=>void) {
+        if (this.files.hasOwnProperty(resource)) {
+            callback(null, this.files[resource]);
+            return;
+        }
+        fs.readFile(path.join(this.directory, `${resource}.json`), 'utf8', (error:Error, content:string) => {
+            if (error) {
+                callback(new Error(`Offline : no ${resource} in the static data snapshot of ${this.directory}`), null);
+                return;
+            }
+            try {
+                this.files[resource] = JSON.parse(content);
+            } catch (e) {
+                callback(e, null);
+                return;
+            }
+            callback(null, this.files[resource]);
+        });
+    }
+
+    private static entries(list:{data:{[key:string]:any}}):any[] {
+        return Object.keys(list.data || {}).map((key) => list.data[key]);
+    }
+
+    private static ok(data:any):TransportResponse {
+        return {statusCode: 200, headers: {'content-type': 'application/json;charset=utf-8'}, body: JSON.stringify(data)};
+    }
+
+    private static notFound(message:string):TransportResponse {
+        return {
+            statusCode: 404,
+            headers: {'content-type': 'application/json;charset=utf-8'},
+            body: JSON.stringify({status: {status_code: 404, message: message}})
+        };
+    }
+}
@@ -0,0 +1,193 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as util from 'util';
+import {ApiKey, InvalidKeyError} from "../api-key";
+import {TransportError} from "../errors";
+import {FakeTransport} from "./fake-transport";
+
+export class ApiKeyTests {
+
+    private static value = "RGAPI-01234567-89ab-cdef-0123-456789abcdef";
+    private static otherValue = "fedcba98-7654-3210-fedc-ba9876543210";
+    private static files = 0;
+
+    public static run() {
+
+        describe('ApiKey', function () {
+
+            var fileNames:string[] = [];
+            var file = (content:any):string => {
+                var fileName = path.join(os.tmpdir(), `league-typenode-key-${process.pid}-${ApiKeyTests.files++}.json`);
+                fs.writeFileSync(fileName, typeof content === "string" ? content : JSON.stringify(content));
+                fileNames.push(fileName);
+                return fileName;
+            };
+
+            after(() => {
+                fileNames.forEach((fileName) => fs.unlinkSync(fileName));
+            });
+
+            describe('fromFile', () => {
+                it("should read the server, tournaments and rate limits of the key", () => {
+                    var key = ApiKey.fromFile(file({value: ApiKeyTests.value, server: "EUW", tournaments: true, rateLimits: "10:10,500:600"}));
+                    chai.assert.equal(key.value, ApiKeyTests.value);
+                    chai.assert.equal(key.region, "euw");
+                    chai.assert.isTrue(key.tournaments);
+                    chai.assert.deepEqual(key.rateLimits, [{requests: 10, seconds: 10}, {requests: 500, seconds: 600}]);
+                    chai.assert.isTrue(key.serves("euw"));
+                    chai.assert.isFalse(key.serves("kr"));
+                    chai.assert.isTrue(key.serves("global"));
+                });
+
+                it("should throw an InvalidKeyError without the value for invalid files", () => {
+                    var invalid = [
+                        file("{not json"),
+                        file({server: "euw"}),
+                        file({value: "not-a-key"}),
+                        file({value: ApiKeyTests.value, server: "europe"}),
+                        file({value: ApiKeyTests.value, rateLimits: [{requests: 0, seconds: 10}]}),
+                        file([{value: ApiKeyTests.value}, {value: ApiKeyTests.otherValue}]),
+                        path.join(os.tmpdir(), "league-typenode-missing-key.json")
+                    ];
+                    invalid.forEach((fileName) => {
+                        try {
+                            ApiKey.fromFile(fileName);
+                        } catch (e) {
+                            chai.assert.instanceOf(e, InvalidKeyError, fileName);
+                            chai.assert.notInclude(e.message, "0123-456789abcdef");
+                            return;
+                        }
+                        chai.assert.fail(fileName, "an invalid key file");
+                    });
+                });
+            });
+
+            describe('allFromFile', () => {
+                it("should read a key per region", () => {
+                    var keys = ApiKey.allFromFile(file({keys: [{value: ApiKeyTests.value, server: "euw"}, {value: ApiKeyTests.otherValue, server: "kr"}]}));
+                    chai.assert.deepEqual(keys.map((key) => key.region), ["euw", "kr"]);
+                });
+            });
+
+            describe('fromEnv', () => {
+                var variable = "LEAGUETYPENODE_TEST_KEY";
+
+                afterEach(() => {
+                    delete process.env[variable];
+                });
+
+                it("should throw an InvalidKeyError if the variable isn't set or isn't a key", () => {
+                    chai.assert.include(ApiKeyTests.error(() => ApiKey.fromEnv(variable)).message, variable);
+                    process.env[variable] = "not-a-key";
+                    chai.assert.include(ApiKeyTests.error(() => ApiKey.fromEnv(variable, false, true)).message, "isn't a valid API key");
+                });
+
+                it("should read the variable again when reloading", () => {
+                    process.env[variable] = ApiKeyTests.value;
+                    var key = ApiKey.fromEnv(variable, false, true);
+                    process.env[variable] = ApiKeyTests.otherValue;
+                    chai.assert.equal(key.value, ApiKeyTests.otherValue);
+                    delete process.env[variable];
+                    chai.assert.throws(() => key.value, InvalidKeyError);
+                });
+            });
+
+            describe('redaction', () => {
+                it("should not show the value in its string, JSON or logs", () => {
+                    var key = new ApiKey(ApiKeyTests.value, true, {region: "euw"});
+                    [String(key), JSON.stringify(key), util.inspect(key), JSON.stringify({key: key})].forEach((text) => {
+                        chai.assert.notInclude(text, ApiKeyTests.value);
+                        chai.assert.include(text, "REDACTED");
+                    });
+                });
+            });
+
+            it("should refuse an empty value", () => {
+                chai.assert.throws(() => new ApiKey(""), InvalidKeyError);
+                chai.assert.throws(() => new ApiKey(undefined), InvalidKeyError);
+            });
+
+            it("should refuse a value that doesn't look like a key, given directly or by a function", () => {
+                chai.assert.include(ApiKeyTests.error(() => new ApiKey("not-a-key")).message, "isn't a valid API key");
+                var key = new ApiKey(() => "not-a-key");
+                chai.assert.include(ApiKeyTests.error(() => key.value).message, "isn't a valid API key");
+                chai.assert.equal(new ApiKey(` ${ApiKeyTests.value} `).value, ApiKeyTests.value);
+            });
+        });
+
+        describe('LeagueTypenode keys', function () {
+
+            it("should use the keys restricted to the region of each request", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var requests = transport.requests;
+                var tn = transport.client({}, [
+                    new ApiKey(ApiKeyTests.value, false, {region: "euw"}),
+                    new ApiKey(ApiKeyTests.otherValue, false, {region: "kr"})
+                ]);
+                return tn.getSummonerByIds("kr", "1").then(() => tn.getSummonerByIds("euw", "1")).then(() => {
+                    chai.assert.equal(requests[0].headers['X-Riot-Token'], ApiKeyTests.otherValue);
+                    chai.assert.equal(requests[1].headers['X-Riot-Token'], ApiKeyTests.value);
+                    return tn.getSummonerByIds("na", "1");
+                }).then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.include(error.message, "na");
+                    chai.assert.lengthOf(requests, 2);
+                });
+            });
+
+            it("should use the rate limits declared by a key", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client({}, new ApiKey(ApiKeyTests.value, false, {rateLimits: [{requests: 1, seconds: 10}]}));
+                tn.getSummonerByIds("euw", "1");
+                tn.getSummonerByIds("euw", "2");
+                chai.assert.lengthOf(transport.requests, 1, "requests sent right away");
+            });
+
+            it("should fail the calls whose key can't be read", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client({}, new ApiKey(() => null));
+                return tn.getSummonerByIds("euw", "1").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.instanceOf(error, InvalidKeyError);
+                    chai.assert.lengthOf(transport.requests, 0);
+                });
+            });
+
+            it("should remove the key from the errors of the transport", (done) => {
+                var transport = new FakeTransport((request) => new Error(`Couldn't reach ${request.hostname}${request.path}`));
+                var tn = transport.client({keyLocation: "query"}, ApiKeyTests.value);
+                tn.getSummonerByIds("euw", "1", (error) => {
+                    chai.assert.instanceOf(error, TransportError);
+                    chai.assert.notInclude(error.message, ApiKeyTests.value);
+                    chai.assert.notInclude((<TransportError>error).cause.message, ApiKeyTests.value);
+                    done();
+                });
+            });
+        });
+    }
+
+    /**
+     * Gives the InvalidKeyError a function throws
+     */
+    private static error(run:()=>any):InvalidKeyError {
+        try {
+            run();
+        } catch (e) {
+            chai.assert.instanceOf(e, InvalidKeyError);
+            return e;
+        }
+        chai.assert.fail("returned", "thrown");
+    }
+}
+
+ApiKeyTests.run();
@@ -0,0 +1,196 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import {CallbackReceiver, InvalidCallbackError, TournamentCallback} from "../callback-receiver";
+import {MockServer} from "../mock-server";
+import {LeagueTypenode} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class CallbackReceiverTests {
+
+    private static game:TournamentCallback = {
+        startTime: 1460840702000,
+        shortCode: "EUW0001",
+        metaData: "{\"round\":1}",
+        gameId: 2586444720,
+        gameName: "e9d4f33b-09d4-4a2f-a1b6-d1a8b2a5cc21",
+        gameType: "Practice",
+        gameMap: 11,
+        gameMode: "CLASSIC",
+        region: "EUW1",
+        winningTeam: [{summonerId: 20717177, summonerName: "FNC Rekkles"}],
+        losingTeam: [{summonerId: 25517257, summonerName: "Protectator"}]
+    };
+
+    public static run() {
+
+        describe('CallbackReceiver', function () {
+
+            this.slow(200);
+
+            describe('parse', () => {
+                it("should parse a valid callback", () => {
+                    chai.assert.deepEqual(CallbackReceiver.parse(JSON.stringify(CallbackReceiverTests.game)), CallbackReceiverTests.game);
+                });
+
+                it("should throw an InvalidCallbackError for invalid callbacks", () => {
+                    var invalid = ['not json', '[]', '{"shortCode":"EUW0001"}',
+                        JSON.stringify(CallbackReceiverTests.with({region: "euw"})),
+                        JSON.stringify(CallbackReceiverTests.with({winningTeam: [{summonerName: "FNC Rekkles"}]}))];
+                    invalid.forEach((body) => {
+                        chai.assert.throws(() => CallbackReceiver.parse(body), InvalidCallbackError);
+                    });
+                });
+            });
+
+            describe('as a standalone server', () => {
+
+                var fixtures:MockServer;
+                var receiver:CallbackReceiver;
+
+                before((done) => {
+                    fixtures = new MockServer(path.join(os.tmpdir(), `league-typenode-callback-${process.pid}`));
+                    fixtures.add({
+                        request: {
+                            method: 'GET',
+                            host: 'euw.api.pvp.net',
+                            path: '/api/lol/euw/v2.2/match/for-tournament/2586444720?tournamentCode=EUW0001&includeTimeline=false'
+                        },
+                        response: {statusCode: 200, headers: {'content-type': 'application/json'}, json: {matchId: 2586444720}}
+                    });
+                    receiver = new CallbackReceiver({tn: new LeagueTypenode(FakeTransport.KEY, {transport: fixtures.transport()})});
+                    fixtures.listen(0, () => {
+                        receiver.listen(0, done);
+                    });
+                });
+
+                after((done) => {
+                    receiver.close(() => {
+                        fixtures.close(done);
+                    });
+                });
+
+                it("should emit the game and its match", (done) => {
+                    var games:TournamentCallback[] = [];
+                    receiver.once("game", (game:TournamentCallback) => {
+                        games.push(game);
+                    });
+                    receiver.once("match", (match:any, game:TournamentCallback) => {
+                        chai.assert.lengthOf(games, 1, "games emitted");
+                        chai.assert.equal(match.matchId, 2586444720);
+                        chai.assert.equal(game.shortCode, "EUW0001");
+                        done();
+                    });
+                    CallbackReceiverTests.post(receiver.port, '/', JSON.stringify(CallbackReceiverTests.game), (statusCode) => {
+                        chai.assert.equal(statusCode, 200);
+                    });
+                });
+
+                it("should answer a 400 error to an invalid callback and emit it", (done) => {
+                    var errors:Error[] = [];
+                    var listener = (error:Error) => errors.push(error);
+                    receiver.on("error", listener);
+                    CallbackReceiverTests.post(receiver.port, '/', '{"shortCode":"EUW0001"}', (statusCode) => {
+                        receiver.removeListener("error", listener);
+                        chai.assert.equal(statusCode, 400);
+                        chai.assert.lengthOf(errors, 1, "errors emitted");
+                        chai.assert.equal(errors[0].name, "InvalidCallbackError");
+                        done();
+                    });
+                });
+
+                it("should answer a 413 error to a callback too large and close the connection", (done) => {
+                    var small = new CallbackReceiver({maxBodySize: 16});
+                    var errors:Error[] = [];
+                    small.on("error", (error:Error) => errors.push(error));
+                    small.listen(0, () => {
+                        var req = http.request({hostname: '127.0.0.1', port: small.port, path: '/', method: 'POST'}, (res) => {
+                            chai.assert.equal(res.statusCode, 413);
+                            chai.assert.equal(res.headers['connection'], 'close');
+                            chai.assert.lengthOf(errors, 1, "errors emitted");
+                            chai.assert.equal(errors[0].name, "InvalidCallbackError");
+                            res.resume();
+                            small.close(() => done());
+                        });
+                        // The connection is closed while the body is still being sent
+                        req.on('error', () => null);
+                        req.write(JSON.stringify(CallbackReceiverTests.game));
+                        req.write(new Array(65536).join("a"));
+                    });
+                });
+
+                it("should answer a 405 error to other methods than POST", (done) => {
+                    http.get({hostname: '127.0.0.1', port: receiver.port, path: '/'}, (res) => {
+                        chai.assert.equal(res.statusCode, 405);
+                        res.resume();
+                        done();
+                    });
+                });
+            });
+
+            describe('as a middleware', () => {
+
+                var server:http.Server;
+                var games:TournamentCallback[] = [];
+
+                before((done) => {
+                    var receiver = new CallbackReceiver({path: '/riot/callback'});
+                    receiver.on("game", (game:TournamentCallback) => games.push(game));
+                    var handler = receiver.handler();
+                    server = http.createServer((req, res) => {
+                        handler(req, res, () => {
+                            res.writeHead(204);
+                            res.end();
+                        });
+                    });
+                    server.listen(0, '127.0.0.1', done);
+                });
+
+                after((done) => {
+                    server.close(done);
+                });
+
+                it("should handle the callbacks POSTed to its path", (done) => {
+                    CallbackReceiverTests.post(server.address().port, '/riot/callback', JSON.stringify(CallbackReceiverTests.game), (statusCode) => {
+                        chai.assert.equal(statusCode, 200);
+                        chai.assert.lengthOf(games, 1, "games emitted");
+                        done();
+                    });
+                });
+
+                it("should leave the other requests to the next middleware", (done) => {
+                    CallbackReceiverTests.post(server.address().port, '/other', JSON.stringify(CallbackReceiverTests.game), (statusCode) => {
+                        chai.assert.equal(statusCode, 204);
+                        chai.assert.lengthOf(games, 1, "games emitted");
+                        done();
+                    });
+                });
+            });
+        });
+    }
+
+    private static with(fields:Object):any {
+        var game:any = JSON.parse(JSON.stringify(CallbackReceiverTests.game));
+        for (var field in fields) {
+            game[field] = fields[field];
+        }
+        return game;
+    }
+
+    private static post(port:number, requestPath:string, body:string, callback:(statusCode:number)=>void) {
+        var req = http.request({hostname: '127.0.0.1', port: port, path: requestPath, method: 'POST'}, (res) => {
+            res.resume();
+            res.on('end', () => callback(res.statusCode));
+        });
+        req.end(body);
+    }
+}
+
+CallbackReceiverTests.run();
@@ -0,0 +1,172 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as http from 'http';
+import {CancellationToken} from "../cancellation";
+import {CancelledError, TimeoutError} from "../errors";
+import {NodeTransport} from "../transport";
+import {FakeTransport} from "./fake-transport";
+
+export class CancellationTests {
+
+    public static run() {
+
+        describe('CancellationToken', function () {
+
+            it("should call its listeners once when cancelled", () => {
+                var token = new CancellationToken();
+                var reasons:string[] = [];
+                token.onCancel((reason) => reasons.push(reason));
+                var remove = token.onCancel((reason) => reasons.push("removed"));
+                remove();
+                token.cancel("Stop");
+                token.cancel("Again");
+                chai.assert.isTrue(token.cancelled);
+                chai.assert.equal(token.reason, "Stop");
+                chai.assert.deepEqual(reasons, ["Stop"]);
+            });
+
+            it("should call the listeners added after it was cancelled right away", () => {
+                var token = new CancellationToken();
+                token.cancel();
+                var called = false;
+                token.onCancel(() => called = true);
+                chai.assert.isTrue(called);
+            });
+
+            it("should cancel itself after a delay", (done) => {
+                var token = CancellationToken.timeout(10);
+                chai.assert.isFalse(token.cancelled);
+                token.onCancel((reason) => {
+                    chai.assert.include(reason, "10 ms");
+                    done();
+                });
+            });
+        });
+
+        describe('LeagueTypenode timeouts and cancellation', function () {
+
+            this.slow(200);
+
+            it("should fail a request that takes longer than the timeout of the instance", (done) => {
+                var transport = new FakeTransport(null);
+                var tn = transport.client({timeout: 20});
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, TimeoutError);
+                    chai.assert.equal((<TimeoutError>error).context.operation, "getVersions");
+                    chai.assert.isTrue(transport.requests[0].cancellation.cancelled, "request aborted");
+                    done();
+                });
+            });
+
+            it("should let a call override the timeout", () => {
+                var transport = new FakeTransport(null);
+                var tn = transport.client({timeout: 60000});
+                return tn.withOptions({timeout: 20}).getVersions("euw").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.instanceOf(error, TimeoutError);
+                });
+            });
+
+            it("should retry the requests that timed out", (done) => {
+                var transport = new FakeTransport(null);
+                var tn = transport.client({timeout: 10, retry: {maxAttempts: 2, backoff: () => 0}});
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, TimeoutError);
+                    chai.assert.lengthOf(transport.requests, 2);
+                    done();
+                });
+            });
+
+            it("should abort the requests in flight when cancelled", (done) => {
+                var transport = new FakeTransport(null);
+                var token = new CancellationToken();
+                var tn = transport.client().withOptions({cancellation: token});
+                var errors:Error[] = [];
+                var check = (error:Error) => {
+                    errors.push(error);
+                    if (errors.length == 2) {
+                        errors.forEach((error) => chai.assert.instanceOf(error, CancelledError));
+                        chai.assert.equal((<CancelledError>errors[0]).reason, "Shutting down");
+                        chai.assert.isTrue(transport.requests.every((request) => request.cancellation.cancelled), "requests aborted");
+                        done();
+                    }
+                };
+                tn.getVersions("euw", check);
+                tn.getVersions("euw", check);
+                chai.assert.lengthOf(transport.requests, 2, "requests sent");
+                token.cancel("Shutting down");
+            });
+
+            it("should cancel the requests waiting for a retry", (done) => {
+                var token = new CancellationToken();
+                var transport = new FakeTransport(() => {
+                    setTimeout(() => token.cancel(), 10);
+                    return FakeTransport.status(503);
+                });
+                var tn = transport.client({retry: {maxAttempts: 2, backoff: () => 60000}});
+                tn.withOptions({cancellation: token}).getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, CancelledError);
+                    done();
+                });
+            });
+
+            it("should not send the requests of a cancelled token", () => {
+                var transport = new FakeTransport(null);
+                var token = new CancellationToken();
+                token.cancel();
+                return transport.client().withOptions({cancellation: token}).getVersions("euw").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.instanceOf(error, CancelledError);
+                    chai.assert.lengthOf(transport.requests, 0);
+                });
+            });
+        });
+
+        describe('NodeTransport cancellation', function () {
+
+            this.slow(200);
+
+            var server:http.Server;
+            var responses:http.ServerResponse[] = [];
+
+            before((done) => {
+                server = http.createServer((req, res) => {
+                    responses.push(res);
+                });
+                server.listen(0, '127.0.0.1', done);
+            });
+
+            after((done) => {
+                responses.forEach((res) => res.end());
+                server.close(done);
+            });
+
+            it("should abort the request when its token is cancelled", (done) => {
+                var token = new CancellationToken();
+                new NodeTransport().request({
+                    method: 'GET',
+                    protocol: 'http:',
+                    hostname: '127.0.0.1',
+                    port: server.address().port,
+                    path: '/',
+                    headers: {},
+                    body: '',
+                    cancellation: token
+                }, (error) => {
+                    chai.assert.isNotNull(error);
+                    done();
+                });
+                setTimeout(() => token.cancel(), 20);
+            });
+        });
+    }
+}
+
+CancellationTests.run();
@@ -0,0 +1,88 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as http from 'http';
+import {Endpoints} from "../endpoints";
+import {LeagueTypenode} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class EndpointsTests {
+
+    public static run() {
+
+        describe('Endpoints', function () {
+
+            describe('resolve', () => {
+                it("should send the requests to the servers of the API by default", () => {
+                    var endpoints = new Endpoints();
+                    chai.assert.deepEqual(endpoints.resolve("summoner", "euw"), {protocol: "https:", hostname: "euw.api.pvp.net", port: null});
+                    chai.assert.deepEqual(endpoints.resolve("lol-static-data", "global"), {protocol: "https:", hostname: "global.api.pvp.net", port: null});
+                    chai.assert.deepEqual(endpoints.resolve("lol-status", "global"), {protocol: "http:", hostname: "status.leagueoflegends.com", port: null});
+                    chai.assert.deepEqual(endpoints.resolve(null, "na"), {protocol: "https:", hostname: "na.api.pvp.net", port: null});
+                });
+
+                it("should replace the region and the platform id in the host", () => {
+                    var endpoints = new Endpoints({"*": {host: "{platform}.proxy.local/{region}"}});
+                    chai.assert.equal(endpoints.resolve("summoner", "lan").hostname, "LA1.proxy.local/lan");
+                });
+
+                it("should prefer the options of a family over the ones of every family", () => {
+                    var endpoints = new Endpoints({
+                        "*": {host: "proxy.local", protocol: "http", port: 8080},
+                        "match": {host: "matches.local", port: 9090}
+                    });
+                    chai.assert.deepEqual(endpoints.resolve("match", "euw"), {protocol: "http:", hostname: "matches.local", port: 9090});
+                    chai.assert.deepEqual(endpoints.resolve("lol-static-data", "global"), {protocol: "http:", hostname: "proxy.local", port: 8080});
+                });
+
+                it("should throw for an unknown protocol", () => {
+                    chai.assert.throws(() => {
+                        new Endpoints({"match": {protocol: "ftp"}});
+                    }, Error);
+                });
+            });
+        });
+
+        describe('LeagueTypenode with endpoints', function () {
+
+            this.slow(200);
+
+            var server:http.Server;
+            var requests:http.IncomingMessage[] = [];
+
+            before((done) => {
+                server = http.createServer((req, res) => {
+                    requests.push(req);
+                    res.writeHead(200, {'Content-Type': 'application/json'});
+                    res.end('[]');
+                });
+                server.listen(0, '127.0.0.1', done);
+            });
+
+            after((done) => {
+                server.close(done);
+            });
+
+            it("should send the requests to the configured host, protocol and port", (done) => {
+                var tn = new LeagueTypenode(FakeTransport.KEY, {
+                    endpoints: {"*": {host: "127.0.0.1", protocol: "http", port: server.address().port}}
+                });
+                tn.getShards((error, shards) => {
+                    chai.assert.isNull(error);
+                    tn.getVersions("euw", (error, versions) => {
+                        chai.assert.isNull(error);
+                        chai.assert.deepEqual(requests.map((req) => req.url), ['/shards', '/api/lol/static-data/euw/v1.2/versions']);
+                        chai.assert.deepEqual(requests.map((req) => req.headers['x-riot-token']), [undefined, FakeTransport.KEY]);
+                        done();
+                    });
+                });
+            });
+        });
+    }
+}
+
+EndpointsTests.run();
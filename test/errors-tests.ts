@@ -0,0 +1,152 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {ApiError, NotFoundError, TooManyRequestsError, ServiceUnavailableError, TransportError, TimeoutError, ParseError, RequestError} from "../errors";
+import {FakeTransport} from "./fake-transport";
+
+export class ErrorsTests {
+
+    public static run() {
+
+        describe('ApiError', function () {
+
+            describe('fromStatus', () => {
+                it("should create the error matching each status code", () => {
+                    var names:{[code:number]:string} = {
+                        400: "BadRequestError", 401: "UnauthorizedError", 403: "ForbiddenError", 404: "NotFoundError",
+                        415: "UnsupportedMediaTypeError", 429: "TooManyRequestsError", 500: "InternalServerError",
+                        503: "ServiceUnavailableError", 418: "ApiError"
+                    };
+                    for (var code in names) {
+                        var error = ApiError.fromStatus(Number(code), "message");
+                        chai.assert.instanceOf(error, ApiError);
+                        chai.assert.equal(error.name, names[code]);
+                        chai.assert.equal(error.code, Number(code));
+                    }
+                });
+
+                it("should read the rate limit headers of a 429 error", () => {
+                    var error = <TooManyRequestsError>ApiError.fromStatus(429, "message", null, {'retry-after': '3', 'x-rate-limit-type': 'user'});
+                    chai.assert.strictEqual(error.retryAfter, 3);
+                    chai.assert.equal(error.limitType, "user");
+                });
+            });
+        });
+
+        describe('LeagueTypenode errors', function () {
+
+            it("should carry the operation, region, key-free URL and headers of the request", (done) => {
+                var tn = new FakeTransport({
+                    statusCode: 404,
+                    headers: {'content-type': 'application/json', 'x-app-rate-limit-count': '1:10'},
+                    body: '{"status":{"status_code":404,"message":"Not found"}}'
+                }).client();
+                tn.getSummonerByIds("euw", "1234", (error) => {
+                    chai.assert.instanceOf(error, NotFoundError);
+                    var context = (<NotFoundError>error).context;
+                    chai.assert.equal(context.operation, "getSummonerByIds");
+                    chai.assert.equal(context.region, "euw");
+                    chai.assert.equal(context.method, "GET");
+                    chai.assert.equal(context.url, "https://euw.api.pvp.net/api/lol/euw/v1.4/summoner/1234");
+                    chai.assert.equal((<NotFoundError>error).headers['x-app-rate-limit-count'], '1:10');
+                    done();
+                });
+            });
+
+            it("should give the region of the static data operations", (done) => {
+                var tn = new FakeTransport({statusCode: 503, headers: {}, body: '{"status":{"status_code":503,"message":"Unavailable"}}'}).client();
+                tn.getVersions("kr", (error) => {
+                    chai.assert.instanceOf(error, ServiceUnavailableError);
+                    chai.assert.equal((<RequestError>error).context.region, "kr");
+                    done();
+                });
+            });
+
+            it("should give a ParseError for a body that isn't JSON", (done) => {
+                var tn = new FakeTransport({statusCode: 200, headers: {}, body: '<html>Bad gateway</html>'}).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, ParseError);
+                    chai.assert.equal((<ParseError>error).body, '<html>Bad gateway</html>');
+                    done();
+                });
+            });
+
+            it("should use the status code of a response whose body isn't JSON", (done) => {
+                var tn = new FakeTransport({statusCode: 502, headers: {'content-type': 'text/html'}, body: '<html>Bad gateway</html>'}).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, ApiError);
+                    chai.assert.notInstanceOf(error, ParseError);
+                    chai.assert.equal((<ApiError>error).code, 502);
+                    done();
+                });
+            });
+
+            it("should prefer the status code of the response over the one of its body", (done) => {
+                var tn = new FakeTransport({statusCode: 404, headers: {}, body: '{"status":{"status_code":500,"message":"Not found"}}'}).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, NotFoundError);
+                    chai.assert.include(error.message, "Not found");
+                    done();
+                });
+            });
+
+            it("should fall back to the status of the body of a successful response", (done) => {
+                var tn = new FakeTransport({statusCode: 200, headers: {}, body: '{"status":{"status_code":429,"message":"Rate limit exceeded"}}'}).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, TooManyRequestsError);
+                    done();
+                });
+            });
+
+            it("should give null for an empty response", (done) => {
+                var tn = new FakeTransport({statusCode: 204, headers: {}, body: ''}).client();
+                tn.getVersions("euw", (error, data) => {
+                    chai.assert.isNull(error);
+                    chai.assert.isNull(data);
+                    done();
+                });
+            });
+
+            it("should not take the status of a shard for an error", (done) => {
+                var tn = new FakeTransport({statusCode: 200, headers: {}, body: '{"slug":"euw","status":"online"}'}).client();
+                tn.getShard("euw", (error, shard) => {
+                    chai.assert.isNull(error);
+                    chai.assert.equal(shard.slug, "euw");
+                    done();
+                });
+            });
+
+            it("should wrap network errors in a TransportError", (done) => {
+                var tn = new FakeTransport(ErrorsTests.networkError("ECONNRESET")).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, TransportError);
+                    chai.assert.notInstanceOf(error, TimeoutError);
+                    chai.assert.equal((<TransportError>error).code, "ECONNRESET");
+                    chai.assert.equal((<TransportError>error).context.operation, "getVersions");
+                    chai.assert.notInclude(error.message, "some-key");
+                    done();
+                });
+            });
+
+            it("should give a TimeoutError for timed out connections", (done) => {
+                var tn = new FakeTransport(ErrorsTests.networkError("ETIMEDOUT")).client();
+                tn.getVersions("euw", (error) => {
+                    chai.assert.instanceOf(error, TimeoutError);
+                    done();
+                });
+            });
+        });
+    }
+
+    private static networkError(code:string):Error {
+        var error:any = new Error(`connect ${code}`);
+        error.code = code;
+        return error;
+    }
+}
+
+ErrorsTests.run();
@@ -0,0 +1,98 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import {Transport, TransportRequest, TransportResponse} from "../transport";
+import {LeagueTypenode, LeagueTypenodeOptions, ApiKey} from "../index";
+
+/**
+ * What a FakeTransport answers a request with : a response, an error the request fails with, or null to never answer
+ */
+export type FakeAnswer = TransportResponse|Error|null;
+
+/**
+ * Transport answering the requests without any network, and remembering the requests it got.
+ *
+ * Answers are given asynchronously, as a real transport would.
+ */
+export class FakeTransport implements Transport {
+    /**
+     * Key of the instances created by `client()` by default
+     */
+    public static KEY = "RGAPI-00000000-0000-0000-0000-000000000000";
+
+    public requests:TransportRequest[] = [];
+
+    /**
+     * Creates a FakeTransport.
+     *
+     * @param answer Answer to every request, or function giving the answer to a request from the request and the
+     * number of requests received before it
+     */
+    constructor(private answer:FakeAnswer|((request:TransportRequest, index:number)=>FakeAnswer)) {
+    }
+
+    /**
+     * Creates a successful response whose body is some data as JSON.
+     *
+     * @param data Data of the response
+     * @returns {TransportResponse}
+     */
+    public static ok(data:any):TransportResponse {
+        return {statusCode: 200, headers: {}, body: JSON.stringify(data)};
+    }
+
+    /**
+     * Creates a response with a status code and an empty body.
+     *
+     * @param statusCode Status code of the response
+     * @returns {TransportResponse}
+     */
+    public static status(statusCode:number):TransportResponse {
+        return {statusCode: statusCode, headers: {}, body: ''};
+    }
+
+    /**
+     * Gives some answers one after the other. The requests received after them all get the last one.
+     *
+     * @param answers Answers to the requests, in the order they are received
+     * @returns {(request:TransportRequest, index:number)=>FakeAnswer}
+     */
+    public static inTurn(answers:FakeAnswer[]):(request:TransportRequest, index:number)=>FakeAnswer {
+        return (request:TransportRequest, index:number) => answers[Math.min(index, answers.length - 1)];
+    }
+
+    /**
+     * Creates an instance sending its requests through this transport.
+     *
+     * @param options Options of the instance
+     * @param key Key of the instance
+     * @returns {LeagueTypenode}
+     */
+    public client(options:LeagueTypenodeOptions = {}, key:string|ApiKey|(string|ApiKey)[] = FakeTransport.KEY):LeagueTypenode {
+        options.transport = this;
+        return new LeagueTypenode(key, options);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public request(request:TransportRequest, callback:(error:Error, response:TransportResponse)=>void) {
+        var index = this.requests.length;
+        this.requests.push(request);
+        var answer = typeof this.answer === "function" ?
+            (<(request:TransportRequest, index:number)=>FakeAnswer>this.answer)(request, index) : <FakeAnswer>this.answer;
+        if (answer == null) {
+            return;
+        }
+        setTimeout(() => {
+            if (answer instanceof Error) {
+                callback(answer, null);
+            } else {
+                callback(null, <TransportResponse>answer);
+            }
+        }, 0);
+    }
+}
@@ -0,0 +1,186 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {KeyPool} from "../key-pool";
+import {ApiError, ForbiddenError, NotFoundError, RequestError, TooManyRequestsError} from "../errors";
+import {TransportRequest, TransportResponse} from "../transport";
+import {ApiKey} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class KeyPoolTests {
+
+    private static values = [
+        "RGAPI-0000000a-0000-0000-0000-000000000000",
+        "RGAPI-0000000b-0000-0000-0000-000000000000",
+        "RGAPI-0000000c-0000-0000-0000-000000000000"
+    ];
+
+    /**
+     * Response to a request exceeding a limit of its key
+     */
+    private static rateLimited:TransportResponse = {statusCode: 429, headers: {'x-rate-limit-type': 'user'}, body: ''};
+
+    public static run() {
+
+        describe('KeyPool', function () {
+
+            var keys = () => KeyPoolTests.values.map((value) => new ApiKey(value));
+
+            describe('select', () => {
+                it("should pick the key that would wait the least", () => {
+                    var pool = new KeyPool(keys());
+                    chai.assert.equal(pool.select((index) => [500, 0, 200][index]), 1);
+                });
+
+                it("should pick the least used key among the ones that would wait as long", () => {
+                    var pool = new KeyPool(keys());
+                    pool.use(0, "euw");
+                    pool.use(1, "euw");
+                    chai.assert.equal(pool.select(), 2);
+                });
+            });
+
+            describe('report', () => {
+                it("should pull a key out for good after a 401 or 403 error", () => {
+                    var pool = new KeyPool(keys());
+                    chai.assert.isTrue(pool.report(0, new ForbiddenError("Forbidden")));
+                    chai.assert.isTrue(pool.report(1, ApiError.fromStatus(401, "Unauthorized")));
+                    chai.assert.equal(pool.select(), 2);
+                    chai.assert.isTrue(pool.report(2, new ForbiddenError("Forbidden")));
+                    chai.assert.equal(pool.select(), -1);
+                    chai.assert.equal(pool.usage()[0].status, "disabled");
+                    chai.assert.instanceOf(pool.usage()[0].disabledBy, ForbiddenError);
+                });
+
+                it("should pull a key out for a while after several 429 errors in a row", () => {
+                    var pool = new KeyPool(keys().slice(0, 2), {maxRateLimited: 2});
+                    var rateLimited = new TooManyRequestsError("Rate limit exceeded", 30, "user");
+                    chai.assert.isFalse(pool.report(0, rateLimited));
+                    chai.assert.isFalse(pool.report(0, new NotFoundError("Not found")));
+                    chai.assert.isFalse(pool.report(0, rateLimited));
+                    chai.assert.isTrue(pool.report(0, rateLimited));
+                    var usage = pool.usage()[0];
+                    chai.assert.equal(usage.status, "cooling");
+                    chai.assert.closeTo(usage.coolingUntil - Date.now(), 30000, 1000);
+                    chai.assert.equal(usage.rateLimited, 3);
+                    chai.assert.equal(usage.errors, 4);
+                    chai.assert.equal(pool.select(), 1);
+                });
+
+                it("should keep a key in rotation after 429 errors for the limits of the API's servers", () => {
+                    var pool = new KeyPool(keys().slice(0, 2), {maxRateLimited: 2});
+                    var rateLimited = new TooManyRequestsError("Rate limit exceeded", 30, "service");
+                    chai.assert.isFalse(pool.report(0, rateLimited));
+                    chai.assert.isFalse(pool.report(0, rateLimited));
+                    chai.assert.isFalse(pool.report(0, rateLimited));
+                    chai.assert.isFalse(pool.report(0, new TooManyRequestsError("Rate limit exceeded", 30, "user")));
+                    var usage = pool.usage()[0];
+                    chai.assert.equal(usage.status, "active");
+                    chai.assert.equal(usage.rateLimited, 4);
+                    chai.assert.equal(pool.select(), 0);
+                });
+
+                it("should pick the cooling key getting back first when no other is in rotation", () => {
+                    var pool = new KeyPool(keys().slice(0, 2), {maxRateLimited: 1});
+                    pool.report(0, new TooManyRequestsError("Rate limit exceeded", 60, "user"));
+                    pool.report(1, new TooManyRequestsError("Rate limit exceeded", 10, "user"));
+                    chai.assert.equal(pool.select(), 1);
+                    chai.assert.closeTo(pool.coolingTime(1), 10000, 1000);
+                });
+            });
+        });
+
+        describe('LeagueTypenode with several keys', function () {
+
+            it("should spread the requests of a region over the keys within their limits", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client({rateLimits: [{requests: 1, seconds: 10}]}, KeyPoolTests.values.slice(0, 2));
+                return Promise.all([
+                    tn.getSummonerByIds("euw", "1"),
+                    tn.getSummonerByIds("euw", "2")
+                ]).then(() => {
+                    chai.assert.deepEqual(transport.requests.map((request) => KeyPoolTests.key(request)).sort(), ["key-a", "key-b"]);
+                    chai.assert.deepEqual(tn.keyUsage().map((usage) => usage.regions), [{euw: 1}, {euw: 1}]);
+                });
+            });
+
+            it("should send the request again with another key when one is refused", () => {
+                var transport = new FakeTransport((request) => KeyPoolTests.key(request) == "key-a" ? FakeTransport.status(403) : FakeTransport.ok({}));
+                var tn = transport.client({}, KeyPoolTests.values.slice(0, 2));
+                return tn.getSummonerByIds("euw", "1").then(() => tn.getSummonerByIds("euw", "2")).then(() => {
+                    chai.assert.deepEqual(transport.requests.map((request) => KeyPoolTests.key(request)), ["key-a", "key-b", "key-b"]);
+                    var usage = tn.keyUsage();
+                    chai.assert.equal(usage[0].status, "disabled");
+                    chai.assert.equal(usage[1].status, "active");
+                    chai.assert.equal(usage[1].requests, 2);
+                });
+            });
+
+            it("should fail with the 429 error when its only key is pulled out for a while", () => {
+                var transport = new FakeTransport(KeyPoolTests.rateLimited);
+                var tn = transport.client({keyPool: {maxRateLimited: 1}});
+                return tn.getSummonerByIds("euw", "1").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.instanceOf(error, TooManyRequestsError);
+                    chai.assert.lengthOf(transport.requests, 1);
+                    chai.assert.equal(tn.keyUsage()[0].status, "cooling");
+                });
+            });
+
+            it("should keep its only key in rotation after a 429 error for the limit of a server", () => {
+                var transport = new FakeTransport({statusCode: 429, headers: {'x-rate-limit-type': 'service'}, body: ''});
+                var tn = transport.client({keyPool: {maxRateLimited: 1}});
+                return tn.getSummonerByIds("euw", "1").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.equal(error.limitType, "service");
+                    chai.assert.equal(tn.keyUsage()[0].status, "active");
+                });
+            });
+
+            it("should wait for a key to get back into rotation before retrying with it", () => {
+                var transport = new FakeTransport((request, index) => index == 0 ? KeyPoolTests.rateLimited : FakeTransport.ok({}));
+                var tn = transport.client({
+                    keyPool: {maxRateLimited: 1, cooldown: 50},
+                    retry: {maxAttempts: 2, backoff: () => 0}
+                });
+                var start = Date.now();
+                return tn.getSummonerByIds("euw", "1").then(() => {
+                    chai.assert.lengthOf(transport.requests, 2);
+                    chai.assert.isAtLeast(Date.now() - start, 40);
+                    chai.assert.equal(tn.keyUsage()[0].status, "active");
+                });
+            });
+
+            it("should fail once every key is pulled out of rotation", () => {
+                var transport = new FakeTransport(FakeTransport.status(401));
+                var tn = transport.client({}, KeyPoolTests.values.slice(0, 2));
+                return tn.getSummonerByIds("euw", "1").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.equal(error.name, "UnauthorizedError");
+                    return tn.getSummonerByIds("euw", "2");
+                }).then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.instanceOf(error, RequestError);
+                    chai.assert.lengthOf(transport.requests, 2);
+                });
+            });
+        });
+    }
+
+    /**
+     * Names the key a request was sent with, "key-a" for the first of the values
+     */
+    private static key(request:TransportRequest):string {
+        return "key-" + "abc".charAt(KeyPoolTests.values.indexOf(request.headers['X-Riot-Token']));
+    }
+}
+
+KeyPoolTests.run();
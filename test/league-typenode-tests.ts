@@ -7,11 +7,14 @@
 import * as chai from 'chai';
 import * as leaguetn from '../index';
 import * as fs from 'fs';
-import {LeagueTypenode, ApiError, TooManyRequestsError} from "../index";
+import * as path from 'path';
+import * as api from 'league-typedef';
+import {LeagueTypenode, ApiKey, ApiError, TooManyRequestsError, BatchError, InvalidRegionError, MockServer} from "../index";
 
 export class LeagueTypenodeTests {
 
     private static maxRetry = 3;
+    private static fixtures = path.join(__dirname, 'fixtures');
     private static playerId = 20717177;
     private static playerName = "FNC Rekkles";
     private static playerIdForTeam = 25517257; // Protectator
@@ -23,17 +26,37 @@ export class LeagueTypenodeTests {
     private static runeId = 5233;
     private static spellId = 4;
     private static matchId = 2586444720;
-    private static tournamentCode;
-    private static tournamentId;
-    private static tournamentCodeParameters;
-    private static tournamentCodeUpdateParameters;
-    private static providerRegistrationBody;
-    private static tournamentRegistrationParameters;
+    private static playedTournamentCode = "EUW0418-6b2f5a84-8f3c-4e1b-a8a5-2c1e0f7d9b31"; // Code the match was played with
+    private static tournamentCode:string;
+    private static tournamentId:number;
+    private static tournamentCodeParameters:api.tournamentProvider.TournamentCodeParameters = {
+        allowedSummonerIds: {participants: [20717177, 25517257]},
+        mapType: "SUMMONERS_RIFT",
+        metadata: "league-typenode",
+        pickType: "TOURNAMENT_DRAFT",
+        spectatorType: "ALL",
+        teamSize: 1
+    };
+    private static tournamentCodeUpdateParameters:api.tournamentProvider.TournamentCodeUpdateParameters = {
+        allowedParticipants: "20717177,25517257",
+        mapType: "HOWLING_ABYSS",
+        pickType: "BLIND_PICK",
+        spectatorType: "LOBBYONLY"
+    };
+    private static providerRegistrationBody:api.tournamentProvider.ProviderRegistrationParameters = {
+        region: "EUW",
+        url: "http://example.com/league-typenode/callback"
+    };
+    private static tournamentRegistrationParameters:api.tournamentProvider.TournamentRegistrationParameters = {
+        name: "league-typenode",
+        providerId: null
+    };
     private static championId = 84; // Akali
 
     public static run() {
         var keyValue:string;
         var keyTournaments:boolean;
+        var server:MockServer = null;
 
         try {
             var fileContent:any = fs.readFileSync("key.json");
@@ -43,18 +66,36 @@ export class LeagueTypenodeTests {
         } catch (e) {
             if (e.code === 'ENOENT') {
                 keyValue = process.env['LEAGUETYPENODE_KEY'];
-                if (keyValue != "") {
+                keyTournaments = false;
+                if (keyValue) {
                     console.info("key.json file not found. Using environment variable LEAGUETYPENODE_KEY.");
-                    keyTournaments = false;
-                } else {
-                    throw new Error("No valid API key found.");
                 }
             } else {
                 throw new Error("No valid API key found.");
             }
         }
 
-        var tn:leaguetn.LeagueTypenode = new leaguetn.LeagueTypenode(keyValue);
+        if (!keyValue) {
+            console.info("No API key found. Running against the recorded fixtures.");
+            keyValue = "00000000-0000-0000-0000-000000000000";
+            keyTournaments = true;
+            server = new MockServer(LeagueTypenodeTests.fixtures);
+        } else if (process.env['LEAGUETYPENODE_RECORD']) {
+            console.info("Recording the missing fixtures.");
+            server = new MockServer(LeagueTypenodeTests.fixtures, {record: true});
+        }
+
+        var tn:leaguetn.LeagueTypenode = new leaguetn.LeagueTypenode(new ApiKey(keyValue, keyTournaments), server ? {transport: server.transport()} : {});
+
+        if (server) {
+            before((done) => {
+                server.listen(0, done);
+            });
+
+            after((done) => {
+                server.close(done);
+            });
+        }
 
         describe('champion-v1.2', function () {
 
@@ -87,6 +128,14 @@ export class LeagueTypenodeTests {
                 it("should return a valid answer with a positive number of championPoints", (done) => {
                     LeagueTypenodeTests.testGetChampionMastery(tn, LeagueTypenodeTests.maxRetry, done);
                 });
+
+                it("should throw before any request when given a region instead of a platform id", () => {
+                    chai.assert.throws(() => {
+                        tn.getChampionMastery("EUW", 25517257, 84, () => {
+                            chai.assert.fail();
+                        });
+                    }, InvalidRegionError);
+                });
             });
 
             describe('getChampionsMastery', () => {
@@ -310,15 +359,15 @@ export class LeagueTypenodeTests {
             this.timeout(15000);
 
             describe('getMatchIdsByTournamentCode', () => {
-                it("should have a valid first match"/*, (done) => {
-                 LeagueTypenodeTests.testGetMatchIdsByTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/); // TODO : Get a valid tournament code
+                it("should have a valid first match", (done) => {
+                    LeagueTypenodeTests.testGetMatchIdsByTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('getMatchByIdAndTournamentCode', () => {
-                it("should find the match correctly"/*, (done) => {
-                 LeagueTypenodeTests.testGetMatchByIdAndTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/); // TODO : Get a valid tournament code
+                it("should find the match correctly", (done) => {
+                    LeagueTypenodeTests.testGetMatchByIdAndTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('getMatchById', () => {
@@ -377,6 +426,20 @@ export class LeagueTypenodeTests {
                 it("should contain the correct summoner's id", (done) => {
                     LeagueTypenodeTests.testGetSummonerByIds(tn, LeagueTypenodeTests.maxRetry, done);
                 });
+
+                it("should resolve a Promise when no callback is given", (done) => {
+                    LeagueTypenodeTests.testGetSummonerByIdsPromise(tn, LeagueTypenodeTests.maxRetry, done);
+                });
+
+                it("should share the result of concurrent identical calls", (done) => {
+                    LeagueTypenodeTests.testGetSummonerByIdsConcurrent(tn, LeagueTypenodeTests.maxRetry, done);
+                });
+            });
+
+            describe('getSummonerByIdsInBatches', () => {
+                it("should merge the summoners of every batch", (done) => {
+                    LeagueTypenodeTests.testGetSummonerByIdsInBatches(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('getMasteryPagesBySummonerIds', () => {
@@ -421,47 +484,49 @@ export class LeagueTypenodeTests {
         describe('tournament-provider', function () {
 
             before(function () {
-                console.info("Skipping 'tournament-provider' tests : No compatible key found");
-                this.skip();
+                if (!keyTournaments) {
+                    console.info("Skipping 'tournament-provider' tests : No compatible key found");
+                    this.skip();
+                }
             });
 
             this.slow(200);
             this.timeout(15000);
 
             describe('createTournamentProvider', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testCreateTournamentProvider(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
+                it("should register a provider", (done) => {
+                    LeagueTypenodeTests.testCreateTournamentProvider(tn, LeagueTypenodeTests.maxRetry, done);
+                });
+            });
+
+            describe('createTournament', () => {
+                it("should register a tournament for the provider", (done) => {
+                    LeagueTypenodeTests.testCreateTournament(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('createTournamentCodesById', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testCreateTournamentCodesById(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
+                it("should create a code for the tournament", (done) => {
+                    LeagueTypenodeTests.testCreateTournamentCodesById(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('getTournamentByCode', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testGetTournamentByCode(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
+                it("should find the tournament of the code", (done) => {
+                    LeagueTypenodeTests.testGetTournamentByCode(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('updateTournamentByCode', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testUpdateTournamentByCode(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
+                it("should update the code", (done) => {
+                    LeagueTypenodeTests.testUpdateTournamentByCode(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
             describe('getLobbyEventsByTournamentCode', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testGetLobbyEventsByTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
-            });
-
-            describe('createTournament', () => {
-                it("Test case to be defined..."/*, (done) => {
-                 LeagueTypenodeTests.testCreateTournament(tn, LeagueTypenodeTests.maxRetry, done);
-                 }*/);
+                it("should be a list of events", (done) => {
+                    LeagueTypenodeTests.testGetLobbyEventsByTournamentCode(tn, LeagueTypenodeTests.maxRetry, done);
+                });
             });
 
         });
@@ -557,7 +622,7 @@ export class LeagueTypenodeTests {
     }
 
     private static testGetSpectatorGameInfoBySummonerId(tn:LeagueTypenode, retries:number, done:Function):void {
-        tn.getSpectatorGameInfoBySummonerId("euw", LeagueTypenodeTests.playerId, (error, response) => {
+        tn.getSpectatorGameInfoBySummonerId("EUW1", LeagueTypenodeTests.playerId, (error, response) => {
             if (!error) {
                 // TODO : Assert things
             } else {
@@ -582,7 +647,7 @@ export class LeagueTypenodeTests {
     private static testGetRecentGamesBySummonerId(tn:LeagueTypenode, done:Function):void {
         tn.getRecentGamesBySummonerId("euw", 255171257, (error, response) => {
             if (error) {
-                if (error.name == "ApiError") {
+                if (error instanceof ApiError) {
                     if ((<ApiError>error).code >= 404 && (<ApiError>error).code < 499) {
                         done();
                     }
@@ -848,9 +913,10 @@ export class LeagueTypenodeTests {
     }
 
     private static testGetMatchIdsByTournamentCode(tn:LeagueTypenode, retries:number, done:Function):void {
-        tn.getMatchIdsByTournamentCode("euw", LeagueTypenodeTests.tournamentCode, (error, response) => {
+        tn.getMatchIdsByTournamentCode("euw", LeagueTypenodeTests.playedTournamentCode, (error, response) => {
             if (!error) {
                 chai.assert.isNumber(response[0]);
+                chai.assert.include(response, LeagueTypenodeTests.matchId);
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetMatchIdsByTournamentCode, retries, done);
@@ -859,9 +925,11 @@ export class LeagueTypenodeTests {
     }
 
     private static testGetMatchByIdAndTournamentCode(tn:LeagueTypenode, retries:number, done:Function):void {
-        tn.getMatchByIdAndTournamentCode("euw", LeagueTypenodeTests.matchId, LeagueTypenodeTests.tournamentCode, true, (error, response) => {
+        tn.getMatchByIdAndTournamentCode("euw", LeagueTypenodeTests.matchId, LeagueTypenodeTests.playedTournamentCode, true, (error, response) => {
             if (!error) {
-                chai.assert.equal(response.region, "euw");
+                chai.assert.equal(response.matchId, LeagueTypenodeTests.matchId);
+                chai.assert.equal(response.region, "EUW");
+                chai.assert.isObject(response.timeline, "timeline");
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetMatchByIdAndTournamentCode, retries, done);
@@ -935,6 +1003,54 @@ export class LeagueTypenodeTests {
         })
     }
 
+    private static testGetSummonerByIdsPromise(tn:LeagueTypenode, retries:number, done:Function):void {
+        tn.getSummonerByIds("euw", `${LeagueTypenodeTests.playerId}`).then((response) => {
+            chai.assert.equal(response[`${LeagueTypenodeTests.playerId}`].id, LeagueTypenodeTests.playerId);
+        }).then(() => {
+            done();
+        }, (error) => {
+            try {
+                LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetSummonerByIdsPromise, retries, done);
+            } catch (e) {
+                done(e);
+            }
+        });
+    }
+
+    private static testGetSummonerByIdsConcurrent(tn:LeagueTypenode, retries:number, done:Function):void {
+        Promise.all([
+            tn.getSummonerByIds("euw", `${LeagueTypenodeTests.playerId}`),
+            tn.getSummonerByIds("euw", `${LeagueTypenodeTests.playerId}`)
+        ]).then((responses) => {
+            chai.assert.strictEqual(responses[0], responses[1], "both calls' data");
+        }).then(() => {
+            done();
+        }, (error) => {
+            try {
+                LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetSummonerByIdsConcurrent, retries, done);
+            } catch (e) {
+                done(e);
+            }
+        });
+    }
+
+    private static testGetSummonerByIdsInBatches(tn:LeagueTypenode, retries:number, done:Function):void {
+        var ids = [LeagueTypenodeTests.playerIdForTeam];
+        for (var i = 1; i <= 40; i++) {
+            ids.push(LeagueTypenodeTests.playerId + i);
+        }
+        ids.push(LeagueTypenodeTests.playerId);
+        tn.getSummonerByIdsInBatches("euw", ids, (error, response) => {
+            if (!error) {
+                chai.assert.equal(response[`${LeagueTypenodeTests.playerIdForTeam}`].id, LeagueTypenodeTests.playerIdForTeam);
+                chai.assert.equal(response[`${LeagueTypenodeTests.playerId}`].id, LeagueTypenodeTests.playerId);
+                done();
+            } else {
+                LeagueTypenodeTests.retryIf429(tn, (<BatchError>error).failures[0].error, LeagueTypenodeTests.testGetSummonerByIdsInBatches, retries, done);
+            }
+        })
+    }
+
     private static testGetMasteryPagesBySummonerIds(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.getMasteryPagesBySummonerIds("euw", `${LeagueTypenodeTests.playerId}`, (error, response) => {
             if (!error) {
@@ -993,7 +1109,9 @@ export class LeagueTypenodeTests {
     private static testCreateTournamentCodesById(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.createTournamentCodesById(LeagueTypenodeTests.tournamentId, 1, LeagueTypenodeTests.tournamentCodeParameters, (error, response) => {
             if (!error) {
-                // TODO : Assert things
+                chai.assert.lengthOf(response, 1, "Number of codes");
+                chai.assert.isString(response[0]);
+                LeagueTypenodeTests.tournamentCode = response[0];
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testCreateTournamentCodesById, retries, done);
@@ -1004,7 +1122,8 @@ export class LeagueTypenodeTests {
     private static testGetTournamentByCode(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.getTournamentByCode(LeagueTypenodeTests.tournamentCode, (error, response) => {
             if (!error) {
-                // TODO : Assert things
+                chai.assert.equal(response.code, LeagueTypenodeTests.tournamentCode, "Code");
+                chai.assert.equal(response.tournamentId, LeagueTypenodeTests.tournamentId, "Tournament's id");
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetTournamentByCode, retries, done);
@@ -1013,9 +1132,8 @@ export class LeagueTypenodeTests {
     }
 
     private static testUpdateTournamentByCode(tn:LeagueTypenode, retries:number, done:Function):void {
-        tn.updateTournamentByCode("euw", LeagueTypenodeTests.tournamentCodeUpdateParameters, (error, response) => {
+        tn.updateTournamentByCode(LeagueTypenodeTests.tournamentCode, LeagueTypenodeTests.tournamentCodeUpdateParameters, (error, response) => {
             if (!error) {
-                // TODO : Assert things
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testUpdateTournamentByCode, retries, done);
@@ -1026,7 +1144,7 @@ export class LeagueTypenodeTests {
     private static testGetLobbyEventsByTournamentCode(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.getLobbyEventsByTournamentCode(LeagueTypenodeTests.tournamentCode, (error, response) => {
             if (!error) {
-                // TODO : Assert things
+                chai.assert.isArray(response.eventList);
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testGetLobbyEventsByTournamentCode, retries, done);
@@ -1037,7 +1155,8 @@ export class LeagueTypenodeTests {
     private static testCreateTournamentProvider(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.createTournamentProvider(LeagueTypenodeTests.providerRegistrationBody, (error, response) => {
             if (!error) {
-                // TODO : Assert things
+                chai.assert.isNumber(response, "Provider's id");
+                LeagueTypenodeTests.tournamentRegistrationParameters.providerId = response;
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testCreateTournamentProvider, retries, done);
@@ -1048,7 +1167,8 @@ export class LeagueTypenodeTests {
     private static testCreateTournament(tn:LeagueTypenode, retries:number, done:Function):void {
         tn.createTournament(LeagueTypenodeTests.tournamentRegistrationParameters, (error, response) => {
             if (!error) {
-                // TODO : Assert things
+                chai.assert.isNumber(response, "Tournament's id");
+                LeagueTypenodeTests.tournamentId = response;
                 done();
             } else {
                 LeagueTypenodeTests.retryIf429(tn, error, LeagueTypenodeTests.testCreateTournament, retries, done);
@@ -0,0 +1,157 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as url from 'url';
+import * as api from 'league-typedef';
+import {MatchEnricher, EnrichedMatch} from "../match-enricher";
+import {TransportRequest, TransportResponse} from "../transport";
+import {FakeTransport} from "./fake-transport";
+
+export class MatchEnricherTests {
+
+    private static staticData:{[resource:string]:any} = {
+        "versions": ["6.7.1", "6.6.1", "6.5.1"],
+        "champion": {data: {"1": {id: 1, key: "Annie", name: "Annie", title: "the Dark Child", image: {full: "Annie.png", group: "champion"}}}},
+        "item": {data: {"3089": {id: 3089, name: "Rabadon's Deathcap", image: {full: "3089.png", group: "item"}}}},
+        "summoner-spell": {data: {"4": {id: 4, key: "SummonerFlash", name: "Flash", image: {full: "SummonerFlash.png", group: "spell"}}}},
+        "rune": {data: {"5273": {id: 5273, name: "Greater Mark of Magic Penetration", image: {full: "r_3_1.png", group: "rune"}}}},
+        "mastery": {data: {"6114": {id: 6114, name: "Sorcery", image: {full: "6114.png", group: "mastery"}}}}
+    };
+
+    public static run() {
+
+        describe('MatchEnricher', function () {
+
+            it("should resolve the ids against the static data of the patch of the match", () => {
+                var transport = new FakeTransport(MatchEnricherTests.staticDataOf);
+                var match = MatchEnricherTests.match("6.6.138.9054");
+                return new MatchEnricher(transport.client(), {locale: "fr_FR"}).enrich("euw", match).then((enriched) => {
+                    chai.assert.equal(enriched.staticDataVersion, "6.6.1");
+                    var participant = enriched.participants[0];
+                    chai.assert.deepEqual(participant.champion, {
+                        id: 1,
+                        name: "Annie",
+                        image: "https://ddragon.leagueoflegends.com/cdn/6.6.1/img/champion/Annie.png",
+                        key: "Annie",
+                        title: "the Dark Child"
+                    });
+                    chai.assert.deepEqual(participant.spells.map((spell) => spell.name), ["Flash", null]);
+                    chai.assert.equal(participant.items[0].name, "Rabadon's Deathcap");
+                    chai.assert.isNull(participant.items[1]);
+                    chai.assert.deepEqual(participant.runes[0], {runeId: 5273, rank: 9, name: "Greater Mark of Magic Penetration",
+                        image: "https://ddragon.leagueoflegends.com/cdn/6.6.1/img/rune/r_3_1.png"});
+                    chai.assert.equal(participant.masteries[0].name, "Sorcery");
+                    chai.assert.equal(enriched.teams[0].bans[0].champion.name, "Annie");
+                    transport.requests.filter((request) => request.path.indexOf("/versions") == -1).forEach((request) => {
+                        var query = url.parse(request.path, true).query;
+                        chai.assert.equal(query.version, "6.6.1");
+                        chai.assert.equal(query.locale, "fr_FR");
+                    });
+                    chai.assert.notProperty(match.participants[0], "champion");
+                });
+            });
+
+            it("should retrieve the static data of a version once", () => {
+                var transport = new FakeTransport(MatchEnricherTests.staticDataOf);
+                var enricher = new MatchEnricher(transport.client());
+                return Promise.all([
+                    enricher.enrich("euw", MatchEnricherTests.match("6.6.138.9054")),
+                    enricher.enrich("euw", MatchEnricherTests.match("6.6.140.1234"))
+                ]).then(() => enricher.enrich("euw", MatchEnricherTests.match("6.6.140.1234"))).then(() => {
+                    chai.assert.lengthOf(transport.requests, 6);
+                });
+            });
+
+            it("should retrieve the versions again once they expire", () => {
+                var versions = ["6.6.1", "6.5.1"];
+                var transport = new FakeTransport((request) => MatchEnricherTests.resource(request) == "versions" ?
+                    FakeTransport.ok(versions) : MatchEnricherTests.staticDataOf(request));
+                var enricher = new MatchEnricher(transport.client(), {versionsTtl: 0});
+                return enricher.enrich("euw", MatchEnricherTests.match("6.7.141.5678")).then((enriched) => {
+                    chai.assert.equal(enriched.staticDataVersion, "6.6.1");
+                    versions = ["6.7.1", "6.6.1", "6.5.1"];
+                    return enricher.enrich("euw", MatchEnricherTests.match("6.7.141.5678"));
+                }).then((enriched) => {
+                    chai.assert.equal(enriched.staticDataVersion, "6.7.1");
+                    chai.assert.lengthOf(transport.requests.filter((request) => MatchEnricherTests.resource(request) == "versions"), 2);
+                });
+            });
+
+            it("should discard the static data of the least recently used versions", () => {
+                var transport = new FakeTransport(MatchEnricherTests.staticDataOf);
+                var enricher = new MatchEnricher(transport.client(), {maxVersions: 2});
+                var championRequests = () => transport.requests.filter((request) => MatchEnricherTests.resource(request) == "champion")
+                    .map((request) => url.parse(request.path, true).query.version);
+                var matchVersions = ["6.5.120.1", "6.6.138.9054", "6.5.120.1", "6.7.141.5678", "6.5.120.1", "6.6.138.9054"];
+                return matchVersions.reduce((previous:Promise<any>, matchVersion) => {
+                    return previous.then(() => enricher.enrich("euw", MatchEnricherTests.match(matchVersion)));
+                }, Promise.resolve()).then(() => {
+                    // 6.6.1 was the least recently used when 6.7.1 came
+                    chai.assert.deepEqual(championRequests(), ["6.5.1", "6.6.1", "6.7.1", "6.6.1"]);
+                });
+            });
+
+            it("should use the latest static data for the patches it doesn't have", () => {
+                var enricher = new MatchEnricher(new FakeTransport(MatchEnricherTests.staticDataOf).client(), {imageUrl: "http://cdn.local/"});
+                return enricher.enrich("euw", MatchEnricherTests.match("4.20.0.315")).then((enriched) => {
+                    chai.assert.equal(enriched.staticDataVersion, "6.7.1");
+                    chai.assert.equal(enriched.participants[0].champion.image, "http://cdn.local/6.7.1/img/champion/Annie.png");
+                });
+            });
+
+            it("should retrieve the static data again after a failure", () => {
+                var failed = false;
+                var enricher = new MatchEnricher(new FakeTransport((request) => {
+                    if (MatchEnricherTests.resource(request) == "item" && !failed) {
+                        failed = true;
+                        return FakeTransport.status(503);
+                    }
+                    return MatchEnricherTests.staticDataOf(request);
+                }).client());
+                return enricher.enrich("euw", MatchEnricherTests.match("6.6.138.9054")).then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.equal(error.code, 503);
+                    return enricher.enrich("euw", MatchEnricherTests.match("6.6.138.9054"));
+                }).then((enriched:EnrichedMatch) => {
+                    chai.assert.equal(enriched.participants[0].items[0].name, "Rabadon's Deathcap");
+                });
+            });
+        });
+    }
+
+    private static match(matchVersion:string):api.match.MatchDetail {
+        return <api.match.MatchDetail><any>{
+            matchId: 2585564748,
+            matchVersion: matchVersion,
+            participants: [{
+                participantId: 1,
+                teamId: 100,
+                championId: 1,
+                spell1Id: 4,
+                spell2Id: 7,
+                runes: [{runeId: 5273, rank: 9}],
+                masteries: [{masteryId: 6114, rank: 5}],
+                stats: {item0: 3089, item1: 0, item2: 0, item3: 0, item4: 0, item5: 0, item6: 0}
+            }],
+            teams: [{teamId: 100, bans: [{championId: 1, pickTurn: 1}]}]
+        };
+    }
+
+    private static resource(request:TransportRequest):string {
+        return url.parse(request.path).pathname.split("/").pop();
+    }
+
+    /**
+     * Answers a static data request with the static data of its resource
+     */
+    private static staticDataOf(request:TransportRequest):TransportResponse {
+        return FakeTransport.ok(MatchEnricherTests.staticData[MatchEnricherTests.resource(request)]);
+    }
+}
+
+MatchEnricherTests.run();
@@ -0,0 +1,116 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as url from 'url';
+import {TransportRequest, TransportResponse} from "../transport";
+import {FakeTransport} from "./fake-transport";
+
+export class MatchHistoryTests {
+
+    public static run() {
+
+        describe('MatchHistory', function () {
+
+            it("should go through every page until the total number of games", () => {
+                var transport = new FakeTransport(MatchHistoryTests.matches(45));
+                var history = transport.client().matchHistory("euw", 1234, {pageSize: 20});
+                return history.toArray().then((matches) => {
+                    chai.assert.deepEqual(matches.map((match) => match.matchId), MatchHistoryTests.range(0, 45));
+                    chai.assert.equal(history.totalGames, 45);
+                    chai.assert.deepEqual(transport.requests.map((request) => MatchHistoryTests.query(request).beginIndex), ["0", "20", "40"]);
+                });
+            });
+
+            it("should send the filters as lists and the times in milliseconds", () => {
+                var transport = new FakeTransport(MatchHistoryTests.matches(5));
+                var history = transport.client().matchHistory("euw", 1234, {
+                    championIds: [64, 103],
+                    rankedQueues: ["RANKED_SOLO_5x5", "TEAM_BUILDER_DRAFT_RANKED_5x5"],
+                    seasons: ["SEASON2016"],
+                    beginTime: new Date(1451606400000),
+                    endTime: 1483228800000
+                });
+                return history.toArray().then(() => {
+                    var query = MatchHistoryTests.query(transport.requests[0]);
+                    chai.assert.equal(query.championIds, "64,103");
+                    chai.assert.equal(query.rankedQueues, "RANKED_SOLO_5x5,TEAM_BUILDER_DRAFT_RANKED_5x5");
+                    chai.assert.equal(query.seasons, "SEASON2016");
+                    chai.assert.equal(query.beginTime, "1451606400000");
+                    chai.assert.equal(query.endTime, "1483228800000");
+                    chai.assert.include(transport.requests[0].path, "championIds=64%2C103");
+                });
+            });
+
+            it("should start at the index given and stop at the limit", () => {
+                var transport = new FakeTransport(MatchHistoryTests.matches(100));
+                var history = transport.client().matchHistory("euw", 1234, {beginIndex: 10, limit: 25, pageSize: 20});
+                return history.toArray().then((matches) => {
+                    chai.assert.deepEqual(matches.map((match) => match.matchId), MatchHistoryTests.range(10, 35));
+                    chai.assert.deepEqual(transport.requests.map((request) => MatchHistoryTests.query(request).endIndex), ["30", "35"]);
+                });
+            });
+
+            it("should give the matches one by one, in order, and nothing once returned", () => {
+                var history = new FakeTransport(MatchHistoryTests.matches(3)).client().matchHistory("euw", 1234);
+                return Promise.all([history.next(), history.next()]).then((results) => {
+                    chai.assert.deepEqual(results.map((result) => result.value.matchId), [0, 1]);
+                    return history.return();
+                }).then(() => history.next()).then((result) => {
+                    chai.assert.isTrue(result.done);
+                });
+            });
+
+            it("should be its own async iterator where async iteration is supported", function () {
+                var symbols:Function & {asyncIterator?:symbol} = global.Symbol;
+                if (!symbols || !symbols.asyncIterator) {
+                    this.skip();
+                }
+                var history = new FakeTransport(MatchHistoryTests.matches(0)).client().matchHistory("euw", 1234);
+                chai.assert.strictEqual(history[symbols.asyncIterator](), history);
+            });
+
+            it("should end right away for a summoner without any match", () => {
+                var transport = new FakeTransport(MatchHistoryTests.matches(0));
+                return transport.client().matchHistory("euw", 1234).next().then((result) => {
+                    chai.assert.isTrue(result.done);
+                    chai.assert.lengthOf(transport.requests, 1);
+                });
+            });
+        });
+    }
+
+    private static query(request:TransportRequest):any {
+        return url.parse(request.path, true).query;
+    }
+
+    private static range(from:number, to:number):number[] {
+        var values:number[] = [];
+        for (var i = from; i < to; i++) {
+            values.push(i);
+        }
+        return values;
+    }
+
+    /**
+     * Answers with the matches between beginIndex and endIndex, out of totalGames matches whose ids are their index
+     */
+    private static matches(totalGames:number):(request:TransportRequest)=>TransportResponse {
+        return (request:TransportRequest) => {
+            var query = MatchHistoryTests.query(request);
+            var beginIndex = Math.min(Number(query.beginIndex), totalGames);
+            var endIndex = Math.min(Number(query.endIndex), totalGames);
+            return FakeTransport.ok({
+                matches: MatchHistoryTests.range(beginIndex, endIndex).map((id) => ({matchId: id, region: "EUW"})),
+                startIndex: beginIndex,
+                endIndex: endIndex,
+                totalGames: totalGames
+            });
+        };
+    }
+}
+
+MatchHistoryTests.run();
@@ -0,0 +1,84 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as api from 'league-typedef';
+import {MatchTimeline, MissingTimelineError} from "../match-timeline";
+
+export class MatchTimelineTests {
+
+    private static fixture = "GET_euw.api.pvp.net_api_lol_euw_v2.2_match_2586444720_includeTimeline_true-5ab8294f.json";
+
+    public static run() {
+
+        describe('MatchTimeline', function () {
+
+            var match:api.match.MatchDetail = JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", MatchTimelineTests.fixture), "utf8")).response.json;
+            var timeline = new MatchTimeline(match);
+
+            it("should give the gold, xp and cs curves of a participant", () => {
+                var curves = timeline.curves(4);
+                chai.assert.lengthOf(curves.timestamps, match.timeline.frames.length);
+                chai.assert.deepEqual(curves.timestamps.slice(0, 3), [0, 60000, 120000]);
+                chai.assert.deepEqual(curves.gold.slice(0, 3), [500, 500, 854]);
+                chai.assert.deepEqual(curves.xp.slice(0, 3), [0, 453, 922]);
+                chai.assert.deepEqual(curves.cs.slice(0, 3), [0, 0, 7]);
+                chai.assert.deepEqual(timeline.allCurves().map((curves) => curves.participantId), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+            });
+
+            it("should give the gold difference between the teams", () => {
+                chai.assert.equal(timeline.goldDifferenceAt(10), 1759);
+                chai.assert.equal(timeline.goldDifferenceAt(10, 200), -1759);
+                chai.assert.equal(timeline.goldDifferenceAt(0), 0);
+                chai.assert.isNull(timeline.goldDifferenceAt(60));
+            });
+
+            it("should find the first blood, the first tower, the dragons and the barons", () => {
+                var objectives = timeline.objectives();
+                chai.assert.equal(objectives.firstBlood.timestamp, 194310);
+                chai.assert.equal(objectives.firstBlood.teamId, 100);
+                chai.assert.deepEqual(objectives.firstBlood.assistingParticipantIds, [5]);
+                chai.assert.equal(objectives.firstTower.timestamp, 641822);
+                chai.assert.equal(objectives.firstTower.teamId, 100);
+                chai.assert.equal(objectives.firstTower.event.laneType, "BOTTOM_LANE");
+                chai.assert.deepEqual(objectives.dragons.map((dragon) => dragon.teamId), [100, 100, 200, 100]);
+                chai.assert.deepEqual(objectives.barons.map((baron) => baron.timestamp), [2220461]);
+            });
+
+            it("should give the kill participation of the participants", () => {
+                chai.assert.closeTo(timeline.killParticipation(1), 5 / 14, 0.0001);
+                chai.assert.closeTo(timeline.killParticipation(4), 9 / 14, 0.0001);
+                chai.assert.closeTo(timeline.killParticipation(6), 1 / 4, 0.0001);
+            });
+
+            it("should give the items bought, without the purchases undone", () => {
+                chai.assert.deepEqual(timeline.buildOrder(1).map((purchase) => purchase.itemId), [1054, 2003, 3047, 3068, 3065]);
+                var undone = new MatchTimeline(<api.match.MatchDetail><any>{
+                    matchId: 1,
+                    participants: [{participantId: 1, teamId: 100}],
+                    timeline: {
+                        frameInterval: 60000,
+                        frames: [{timestamp: 0, participantFrames: {}, events: [
+                            {eventType: "ITEM_PURCHASED", participantId: 1, itemId: 1055, timestamp: 1000},
+                            {eventType: "ITEM_PURCHASED", participantId: 1, itemId: 2003, timestamp: 1200},
+                            {eventType: "ITEM_UNDO", participantId: 1, itemBefore: 2003, itemAfter: 0, timestamp: 1500},
+                            {eventType: "ITEM_PURCHASED", participantId: 1, itemId: 3340, timestamp: 1800}
+                        ]}]
+                    }
+                });
+                chai.assert.deepEqual(undone.buildOrder(1), [{itemId: 1055, timestamp: 1000}, {itemId: 3340, timestamp: 1800}]);
+            });
+
+            it("should throw a MissingTimelineError for a match without its timeline", () => {
+                chai.assert.throws(() => new MatchTimeline(<api.match.MatchDetail><any>{matchId: 1, participants: []}), MissingTimelineError);
+            });
+        });
+    }
+}
+
+MatchTimelineTests.run();
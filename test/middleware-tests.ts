@@ -0,0 +1,113 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {MiddlewareRequest} from "../middleware";
+import {ServiceUnavailableError} from "../errors";
+import {FakeTransport} from "./fake-transport";
+
+export class MiddlewareTests {
+
+    private static versions = FakeTransport.ok(["6.6.1"]);
+
+    public static run() {
+
+        describe('LeagueTypenode middlewares', function () {
+
+            it("should run the hooks of each attempt in the order the middlewares were added", () => {
+                var steps:string[] = [];
+                var tn = new FakeTransport(MiddlewareTests.versions).client();
+                ["first", "second"].forEach((name) => {
+                    tn.use({
+                        beforeRequest: (request, next) => {
+                            steps.push(`${name} before ${request.operation}`);
+                            next();
+                        },
+                        afterResponse: (request, response, next) => {
+                            steps.push(`${name} after ${response.statusCode}`);
+                            next();
+                        }
+                    });
+                });
+                return tn.getVersions("euw").then(() => {
+                    chai.assert.deepEqual(steps, ["first before getVersions", "second before getVersions", "first after 200", "second after 200"]);
+                });
+            });
+
+            it("should send the headers added before the request", () => {
+                var transport = new FakeTransport(MiddlewareTests.versions);
+                var tn = transport.client().use({
+                    beforeRequest: (request, next) => {
+                        request.headers['X-Request-Id'] = "1234";
+                        next();
+                    }
+                });
+                return tn.getVersions("euw").then(() => {
+                    chai.assert.equal(transport.requests[0].headers['X-Request-Id'], "1234");
+                    chai.assert.equal(transport.requests[0].headers['Content-Type'], 'application/json; charset=UTF-8');
+                });
+            });
+
+            it("should not send a request failed before it is sent", () => {
+                var transport = new FakeTransport(MiddlewareTests.versions);
+                var tn = transport.client().use({
+                    beforeRequest: (request, next) => {
+                        throw new Error("Circuit open");
+                    }
+                });
+                return tn.getVersions("euw").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.equal(error.message, "Circuit open");
+                    chai.assert.lengthOf(transport.requests, 0);
+                });
+            });
+
+            it("should give the responses transformed after they are received", () => {
+                var tn = new FakeTransport(MiddlewareTests.versions).client().use({
+                    afterResponse: (request, response, next) => {
+                        next(null, {statusCode: response.statusCode, headers: response.headers, body: '["6.6.1","6.5.1"]'});
+                    }
+                });
+                return tn.getVersions("euw").then((versions) => {
+                    chai.assert.deepEqual(versions, ["6.6.1", "6.5.1"]);
+                });
+            });
+
+            it("should retry the errors a middleware asks to retry", () => {
+                var attempts:number[] = [];
+                var transport = new FakeTransport(FakeTransport.inTurn([FakeTransport.status(503), FakeTransport.status(503), MiddlewareTests.versions]));
+                var tn = transport.client().use({
+                    onError: (request:MiddlewareRequest, error, next) => {
+                        attempts.push(request.attempt);
+                        next(error, error instanceof ServiceUnavailableError ? 0 : null);
+                    }
+                });
+                return tn.getVersions("euw").then((versions) => {
+                    chai.assert.deepEqual(versions, ["6.6.1"]);
+                    chai.assert.deepEqual(attempts, [1, 2]);
+                    chai.assert.lengthOf(transport.requests, 3);
+                });
+            });
+
+            it("should give the error replaced by a middleware", () => {
+                var transport = new FakeTransport(FakeTransport.inTurn([FakeTransport.status(503), MiddlewareTests.versions]));
+                var tn = transport.client({retry: {maxAttempts: 3, backoff: () => 0}}).use({
+                    onError: (request, error, next) => {
+                        next(new Error(`Wrapped : ${error.message}`), null);
+                    }
+                });
+                return tn.getVersions("euw").then(() => {
+                    chai.assert.fail("resolved", "rejected");
+                }, (error) => {
+                    chai.assert.include(error.message, "Wrapped");
+                });
+            });
+        });
+    }
+}
+
+MiddlewareTests.run();
@@ -0,0 +1,151 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {MockServer, Fixture} from "../mock-server";
+import {LeagueTypenode, ApiError} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class MockServerTests {
+
+    private static secretKey = "RGAPI-5ec2e700-0000-0000-0000-000000000000";
+
+    private static directories = 0;
+
+    public static run() {
+
+        describe('MockServer', function () {
+
+            this.slow(200);
+
+            describe('requestKey', () => {
+                it("should ignore the API key of the request", () => {
+                    chai.assert.equal(MockServer.requestKey('get', 'euw.api.pvp.net', '/foo?api_key=abc'), 'GET euw.api.pvp.net/foo');
+                    chai.assert.equal(MockServer.requestKey('GET', 'euw.api.pvp.net', '/foo?a=1&api_key=abc&b=2'), 'GET euw.api.pvp.net/foo?a=1&b=2');
+                    chai.assert.equal(MockServer.requestKey('GET', 'euw.api.pvp.net', '/foo?a=1&api_key=abc'), 'GET euw.api.pvp.net/foo?a=1');
+                });
+            });
+
+            describe('serving fixtures', () => {
+
+                var server:MockServer;
+                var tn:LeagueTypenode;
+
+                before((done) => {
+                    server = new MockServer(MockServerTests.temporaryDirectory());
+                    server.add(MockServerTests.fixture('/api/lol/static-data/euw/v1.2/versions', 200, ["6.6.1"]));
+                    tn = new LeagueTypenode(FakeTransport.KEY, {transport: server.transport()});
+                    server.listen(0, done);
+                });
+
+                after((done) => {
+                    server.close(done);
+                });
+
+                it("should answer a request with its fixture", (done) => {
+                    tn.getVersions("euw", (error, versions) => {
+                        chai.assert.isNull(error);
+                        chai.assert.deepEqual(versions, ["6.6.1"]);
+                        done();
+                    });
+                });
+
+                it("should answer a 400 error to a request whose body doesn't match its fixture", (done) => {
+                    var fixture = MockServerTests.fixture('/tournament/public/v1/provider', 200, 17);
+                    fixture.request.method = 'POST';
+                    fixture.request.json = {region: "EUW", url: "http://example.com"};
+                    server.add(fixture);
+                    tn.addTournamentsKey(FakeTransport.KEY);
+                    tn.createTournamentProvider({region: "EUW", url: "http://example.com"}, (error, providerId) => {
+                        chai.assert.isNull(error);
+                        chai.assert.equal(providerId, 17);
+                        tn.createTournamentProvider({region: "NA", url: "http://example.com"}, (error, providerId) => {
+                            chai.assert.equal((<ApiError>error).code, 400, "error's code");
+                            done();
+                        });
+                    });
+                });
+
+                it("should answer a 404 error to a request without fixture", (done) => {
+                    tn.getLanguages("euw", (error, languages) => {
+                        chai.assert.equal((<ApiError>error).code, 404, "error's code");
+                        done();
+                    });
+                });
+            });
+
+            describe('recording', () => {
+
+                var directory:string;
+                var server:MockServer;
+                var recordTransport = new FakeTransport({
+                    statusCode: 200,
+                    headers: {'content-type': 'application/json', 'x-rate-limit-count': '1:10', 'set-cookie': 'a=b'},
+                    body: '["en_US"]'
+                });
+
+                before((done) => {
+                    directory = MockServerTests.temporaryDirectory();
+                    server = new MockServer(directory, {record: true, recordTransport: recordTransport});
+                    server.listen(0, done);
+                });
+
+                after((done) => {
+                    server.close(done);
+                });
+
+                it("should forward a request without fixture and save its response without the API key", (done) => {
+                    var tn = new LeagueTypenode(MockServerTests.secretKey, {transport: server.transport()});
+                    tn.getLanguages("euw", (error, languages) => {
+                        chai.assert.isNull(error);
+                        chai.assert.deepEqual(languages, ["en_US"]);
+                        chai.assert.equal(recordTransport.requests.length, 1, "forwarded requests");
+                        chai.assert.equal(recordTransport.requests[0].hostname, 'global.api.pvp.net', "forwarded host");
+                        chai.assert.equal(recordTransport.requests[0].protocol, 'https:', "forwarded protocol");
+
+                        var files = fs.readdirSync(directory);
+                        chai.assert.lengthOf(files, 1, "saved fixtures");
+                        var content = fs.readFileSync(path.join(directory, files[0]), 'utf8');
+                        chai.assert.notInclude(content, MockServerTests.secretKey);
+                        var fixture:Fixture = JSON.parse(content);
+                        chai.assert.equal(fixture.request.path, '/api/lol/static-data/euw/v1.2/languages');
+                        chai.assert.deepEqual(fixture.response.headers, {'content-type': 'application/json', 'x-rate-limit-count': '1:10'});
+                        chai.assert.deepEqual(fixture.response.json, ["en_US"]);
+                        done();
+                    });
+                });
+
+                it("should answer from the recorded fixture afterwards", (done) => {
+                    var tn = new LeagueTypenode(FakeTransport.KEY, {transport: server.transport()});
+                    tn.getLanguages("euw", (error, languages) => {
+                        chai.assert.isNull(error);
+                        chai.assert.deepEqual(languages, ["en_US"]);
+                        chai.assert.equal(recordTransport.requests.length, 1, "forwarded requests");
+                        done();
+                    });
+                });
+            });
+        });
+    }
+
+    private static temporaryDirectory():string {
+        var directory = path.join(os.tmpdir(), `league-typenode-${process.pid}-${MockServerTests.directories++}`);
+        fs.mkdirSync(directory);
+        return directory;
+    }
+
+    private static fixture(requestPath:string, statusCode:number, json:any):Fixture {
+        return {
+            request: {method: 'GET', host: 'global.api.pvp.net', path: requestPath},
+            response: {statusCode: statusCode, headers: {'content-type': 'application/json'}, json: json}
+        };
+    }
+}
+
+MockServerTests.run();
@@ -0,0 +1,89 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as url from 'url';
+import {TransportRequest} from "../transport";
+import {FakeTransport} from "./fake-transport";
+
+export class OperationOptionsTests {
+
+    public static run() {
+
+        describe('LeagueTypenode options objects', function () {
+
+            it("should send the parameters given in an object as the positional ones", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client();
+                return tn.getChampions("euw", {locale: "fr_FR", dataById: true, champData: "info"}).then(() => {
+                    return tn.getChampions("euw", "fr_FR", null, true, "info");
+                }).then(() => {
+                    chai.assert.equal(transport.requests[0].path, transport.requests[1].path);
+                    chai.assert.deepEqual(OperationOptionsTests.query(transport.requests[0]), {locale: "fr_FR", dataById: "true", champData: "info"});
+                });
+            });
+
+            it("should join the tags given as a list", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client();
+                return tn.getItemById("euw", 3031, {itemData: ["gold", "stats", "into"]}).then(() => {
+                    return tn.getSummonerSpells("euw", null, "6.6.1", false, ["cooldown", "range"]);
+                }).then(() => {
+                    chai.assert.equal(OperationOptionsTests.query(transport.requests[0]).itemData, "gold,stats,into");
+                    chai.assert.include(transport.requests[0].path, "itemData=gold%2Cstats%2Cinto");
+                    chai.assert.equal(OperationOptionsTests.query(transport.requests[1]).spellData, "cooldown,range");
+                });
+            });
+
+            it("should send the match list filters as lists and the dates in milliseconds", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client();
+                return tn.getMatchesBySummonerId("euw", 1234, {
+                    championIds: [64, 103],
+                    rankedQueues: [],
+                    seasons: ["SEASON2016"],
+                    beginTime: new Date(1451606400000),
+                    endIndex: 10
+                }).then(() => {
+                    chai.assert.deepEqual(OperationOptionsTests.query(transport.requests[0]), {
+                        championIds: "64,103",
+                        seasons: "SEASON2016",
+                        beginTime: "1451606400000",
+                        endIndex: "10"
+                    });
+                });
+            });
+
+            it("should call back the callback given after the object", (done) => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                transport.client().getMatchById("euw", 2585564748, {includeTimeline: true}, (error, match) => {
+                    chai.assert.isNull(error);
+                    chai.assert.deepEqual(match, {});
+                    chai.assert.equal(OperationOptionsTests.query(transport.requests[0]).includeTimeline, "true");
+                    done();
+                });
+            });
+
+            it("should join the ids and names given as a list", () => {
+                var transport = new FakeTransport(FakeTransport.ok({}));
+                var tn = transport.client();
+                return tn.getSummonerByIds("euw", [20717177, 22508641]).then(() => {
+                    return tn.getSummonerByNames("euw", ["Protectator", "Some One", "Ærø"]);
+                }).then(() => tn.getSummonerByNames("euw", "Protectator,Some One")).then(() => {
+                    chai.assert.equal(url.parse(transport.requests[0].path).pathname, "/api/lol/euw/v1.4/summoner/20717177,22508641");
+                    chai.assert.equal(url.parse(transport.requests[1].path).pathname, "/api/lol/euw/v1.4/summoner/by-name/Protectator,Some%20One,%C3%86r%C3%B8");
+                    chai.assert.equal(url.parse(transport.requests[2].path).pathname, "/api/lol/euw/v1.4/summoner/by-name/Protectator,Some%20One");
+                });
+            });
+        });
+    }
+
+    private static query(request:TransportRequest):any {
+        return url.parse(request.path, true).query;
+    }
+}
+
+OperationOptionsTests.run();
@@ -0,0 +1,36 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {Promises} from "../promises";
+
+export class PromisesTests {
+
+    public static run() {
+
+        describe('Promises', function () {
+
+            describe('fromCallback', () => {
+                it("should resolve with the data given to the callback", () => {
+                    return Promises.fromCallback<number>((callback) => setTimeout(() => callback(null, 42), 0)).then((data) => {
+                        chai.assert.equal(data, 42);
+                    });
+                });
+
+                it("should reject with the error given to the callback", () => {
+                    var error = new Error("Failed");
+                    return Promises.fromCallback<number>((callback) => callback(error, null)).then(() => {
+                        chai.assert.fail("resolved", "rejected");
+                    }, (rejection) => {
+                        chai.assert.strictEqual(rejection, error);
+                    });
+                });
+            });
+        });
+    }
+}
+
+PromisesTests.run();
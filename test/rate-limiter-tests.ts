@@ -0,0 +1,113 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {RateLimiter} from "../rate-limiter";
+
+export class RateLimiterTests {
+
+    public static run() {
+
+        describe('RateLimiter', function () {
+
+            this.slow(500);
+            this.timeout(2000);
+
+            describe('parseLimits', () => {
+                it("should parse the limits of a header", () => {
+                    chai.assert.deepEqual(RateLimiter.parseLimits("10:10,500:600"), [
+                        {requests: 10, seconds: 10},
+                        {requests: 500, seconds: 600}
+                    ]);
+                });
+
+                it("should ignore malformed pairs", () => {
+                    chai.assert.deepEqual(RateLimiter.parseLimits("10:10,foo"), [{requests: 10, seconds: 10}]);
+                });
+            });
+
+            describe('schedule', () => {
+                it("should run tasks immediately while within the limits", () => {
+                    var limiter = new RateLimiter([{requests: 3, seconds: 10}]);
+                    var ran = 0;
+                    for (var i = 0; i < 3; i++) {
+                        limiter.schedule("euw", () => ran++);
+                    }
+                    chai.assert.equal(ran, 3, "tasks run");
+                    chai.assert.equal(limiter.pending("euw"), 0, "tasks pending");
+                });
+
+                it("should queue tasks exceeding the limits and run them later", (done) => {
+                    var limiter = new RateLimiter([{requests: 2, seconds: 0.2}]);
+                    var ran = 0;
+                    for (var i = 0; i < 3; i++) {
+                        limiter.schedule("euw", () => ran++);
+                    }
+                    chai.assert.equal(ran, 2, "tasks run");
+                    chai.assert.equal(limiter.pending("euw"), 1, "tasks pending");
+                    setTimeout(() => {
+                        chai.assert.equal(ran, 3, "tasks run");
+                        done();
+                    }, 300);
+                });
+
+                it("should keep separate buckets for each name", () => {
+                    var limiter = new RateLimiter([{requests: 1, seconds: 10}]);
+                    var ran = 0;
+                    limiter.schedule("euw", () => ran++);
+                    limiter.schedule("na", () => ran++);
+                    chai.assert.equal(ran, 2, "tasks run");
+                });
+            });
+
+            describe('waitTime', () => {
+                it("should count the tasks already waiting in the bucket", () => {
+                    var limiter = new RateLimiter([{requests: 2, seconds: 10}]);
+                    chai.assert.equal(limiter.waitTime("euw"), 0);
+                    limiter.schedule("euw", () => {});
+                    limiter.schedule("euw", () => {});
+                    chai.assert.closeTo(limiter.waitTime("euw"), 5000, 50);
+                    limiter.schedule("euw", () => {});
+                    chai.assert.closeTo(limiter.waitTime("euw"), 10000, 50);
+                    chai.assert.equal(limiter.waitTime("kr"), 0);
+                });
+            });
+
+            describe('update', () => {
+                it("should follow the count reported by the server", () => {
+                    var limiter = new RateLimiter([{requests: 10, seconds: 10}]);
+                    var ran = 0;
+                    limiter.update("euw", {"x-rate-limit-count": "9:10"});
+                    limiter.schedule("euw", () => ran++);
+                    limiter.schedule("euw", () => ran++);
+                    chai.assert.equal(ran, 1, "tasks run");
+                });
+
+                it("should replace the limits announced by the server", () => {
+                    var limiter = new RateLimiter();
+                    var ran = 0;
+                    limiter.update("euw", {"x-app-rate-limit": "1:10", "x-app-rate-limit-count": "1:10"});
+                    limiter.schedule("euw", () => ran++);
+                    chai.assert.equal(ran, 0, "tasks run");
+                });
+
+                it("should pause the bucket for the time given by Retry-After", (done) => {
+                    var limiter = new RateLimiter();
+                    var ran = 0;
+                    limiter.update("euw", {"retry-after": "0.1"});
+                    limiter.schedule("euw", () => ran++);
+                    chai.assert.equal(ran, 0, "tasks run");
+                    setTimeout(() => {
+                        chai.assert.equal(ran, 1, "tasks run");
+                        done();
+                    }, 200);
+                });
+            });
+        });
+    }
+}
+
+RateLimiterTests.run();
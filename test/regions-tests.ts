@@ -0,0 +1,70 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {Regions, InvalidRegionError} from "../regions";
+
+export class RegionsTests {
+
+    public static run() {
+
+        describe('Regions', function () {
+
+            describe('parseRegion', () => {
+                it("should parse regions in any case", () => {
+                    chai.assert.equal(Regions.parseRegion("EUW"), "euw");
+                    chai.assert.equal(Regions.parseRegion("lan"), "lan");
+                });
+
+                it("should throw an InvalidRegionError suggesting the region of a platform id", () => {
+                    chai.assert.throws(() => Regions.parseRegion("EUW1"), InvalidRegionError);
+                    chai.assert.match(RegionsTests.errorMessage(() => Regions.parseRegion("EUW1")), /Did you mean "euw"/);
+                });
+
+                it("should throw an InvalidRegionError for unknown values", () => {
+                    chai.assert.throws(() => Regions.parseRegion("moon"), InvalidRegionError);
+                    chai.assert.throws(() => Regions.parseRegion(undefined), InvalidRegionError);
+                });
+            });
+
+            describe('parsePlatformId', () => {
+                it("should parse platform ids in any case", () => {
+                    chai.assert.equal(Regions.parsePlatformId("euw1"), "EUW1");
+                    chai.assert.equal(Regions.parsePlatformId("KR"), "KR");
+                });
+
+                it("should throw an InvalidRegionError suggesting the platform id of a region", () => {
+                    chai.assert.throws(() => Regions.parsePlatformId("EUW"), InvalidRegionError);
+                    chai.assert.match(RegionsTests.errorMessage(() => Regions.parsePlatformId("EUW")), /Did you mean "EUW1"/);
+                });
+            });
+
+            describe('platformOf and regionOf', () => {
+                it("should convert every region to its platform id and back", () => {
+                    Regions.REGIONS.forEach((region) => {
+                        chai.assert.equal(Regions.regionOf(Regions.platformOf(region)), region);
+                    });
+                });
+
+                it("should map the latin american regions", () => {
+                    chai.assert.equal(Regions.platformOf("lan"), "LA1");
+                    chai.assert.equal(Regions.regionOf("LA2"), "las");
+                });
+            });
+        });
+    }
+
+    private static errorMessage(toTry:Function):string {
+        try {
+            toTry();
+        } catch (e) {
+            return e.message;
+        }
+        return null;
+    }
+}
+
+RegionsTests.run();
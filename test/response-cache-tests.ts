@@ -0,0 +1,94 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {ResponseCache, LruCacheStore} from "../response-cache";
+
+export class ResponseCacheTests {
+
+    public static run() {
+
+        describe('LruCacheStore', function () {
+
+            this.slow(200);
+
+            it("should return the values it stores", (done) => {
+                var store = new LruCacheStore();
+                store.set("key", "value", 10);
+                store.get("key", (error, value) => {
+                    chai.assert.equal(value, "value");
+                    done();
+                });
+            });
+
+            it("should discard the least recently used values when full", () => {
+                var store = new LruCacheStore(2);
+                var values:string[] = [];
+                store.set("a", "1", 10);
+                store.set("b", "2", 10);
+                store.get("a", () => null);
+                store.set("c", "3", 10);
+                ["a", "b", "c"].forEach((key) => {
+                    store.get(key, (error, value) => values.push(value));
+                });
+                chai.assert.deepEqual(values, ["1", null, "3"]);
+            });
+
+            it("should discard expired values", (done) => {
+                var store = new LruCacheStore();
+                store.set("key", "value", 0.05);
+                setTimeout(() => {
+                    store.get("key", (error, value) => {
+                        chai.assert.isNull(value);
+                        done();
+                    });
+                }, 100);
+            });
+        });
+
+        describe('ResponseCache', function () {
+
+            describe('family', () => {
+                it("should find the family of each kind of path", () => {
+                    chai.assert.equal(ResponseCache.family("/api/lol/static-data/euw/v1.2/champion"), "lol-static-data");
+                    chai.assert.equal(ResponseCache.family("/api/lol/euw/v1.4/summoner/by-name/foo"), "summoner");
+                    chai.assert.equal(ResponseCache.family("/api/lol/euw/v2.2/matchlist/by-summoner/1"), "matchlist");
+                    chai.assert.equal(ResponseCache.family("/observer-mode/rest/featured"), "featured-games");
+                    chai.assert.equal(ResponseCache.family("/championmastery/location/EUW1/player/1/score"), "championmastery");
+                    chai.assert.equal(ResponseCache.family("/tournament/public/v1/code"), "tournament-provider");
+                    chai.assert.equal(ResponseCache.family("/api/lol/euw/v2.2/match/by-tournament/EUW0001/ids"), "match-by-tournament");
+                    chai.assert.equal(ResponseCache.family("/api/lol/euw/v2.2/match/for-tournament/1"), "match");
+                });
+            });
+
+            describe('ttl', () => {
+                it("should keep static data longer than featured games", () => {
+                    var cache = new ResponseCache();
+                    chai.assert.isAbove(cache.ttl('GET', "/api/lol/static-data/euw/v1.2/item"), cache.ttl('GET', "/observer-mode/rest/featured"));
+                });
+
+                it("should not cache the ids of the games of a tournament code", () => {
+                    var cache = new ResponseCache();
+                    chai.assert.equal(cache.ttl('GET', "/api/lol/euw/v2.2/match/by-tournament/EUW0001/ids"), 0);
+                    chai.assert.isAbove(cache.ttl('GET', "/api/lol/euw/v2.2/match/for-tournament/1?tournamentCode=EUW0001"), 0);
+                });
+
+                it("should not cache other methods than GET", () => {
+                    var cache = new ResponseCache();
+                    chai.assert.equal(cache.ttl('POST', "/api/lol/static-data/euw/v1.2/item"), 0);
+                });
+
+                it("should use the given times over the default ones", () => {
+                    var cache = new ResponseCache({ttls: {"summoner": 0}});
+                    chai.assert.equal(cache.ttl('GET', "/api/lol/euw/v1.4/summoner/1"), 0);
+                    chai.assert.equal(cache.ttl('GET', "/api/lol/euw/v2.2/match/1"), ResponseCache.DEFAULT_TTLS["match"]);
+                });
+            });
+        });
+    }
+}
+
+ResponseCacheTests.run();
@@ -0,0 +1,58 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import {RetryPolicy} from "../retry-policy";
+import {ApiError, TooManyRequestsError} from "../index";
+
+export class RetryPolicyTests {
+
+    public static run() {
+
+        describe('RetryPolicy', function () {
+
+            describe('retryDelay', () => {
+                it("should wait for retryAfter on a 429 error", () => {
+                    var policy = new RetryPolicy();
+                    chai.assert.equal(policy.retryDelay(new TooManyRequestsError("", 2, "user"), 1), 2000);
+                });
+
+                it("should back off exponentially on a 500 error", () => {
+                    var policy = new RetryPolicy({backoff: RetryPolicy.exponential(100)});
+                    chai.assert.equal(policy.retryDelay(new ApiError(500, ""), 1), 100);
+                    chai.assert.equal(policy.retryDelay(new ApiError(500, ""), 2), 200);
+                });
+
+                it("should retry network errors", () => {
+                    var policy = new RetryPolicy({backoff: () => 10});
+                    var error:any = new Error("socket hang up");
+                    error.code = "ECONNRESET";
+                    chai.assert.equal(policy.retryDelay(error, 1), 10);
+                });
+
+                it("should not retry other errors", () => {
+                    var policy = new RetryPolicy();
+                    chai.assert.isNull(policy.retryDelay(new ApiError(404, ""), 1));
+                    chai.assert.isNull(policy.retryDelay(new Error("error"), 1));
+                });
+
+                it("should stop after the maximum number of attempts", () => {
+                    var policy = new RetryPolicy({maxAttempts: 2});
+                    chai.assert.isNotNull(policy.retryDelay(new ApiError(503, ""), 1));
+                    chai.assert.isNull(policy.retryDelay(new ApiError(503, ""), 2));
+                });
+
+                it("should only retry a 429 error for methods other than GET", () => {
+                    var policy = new RetryPolicy();
+                    chai.assert.isNull(policy.retryDelay(new ApiError(500, ""), 1, 'POST'));
+                    chai.assert.equal(policy.retryDelay(new TooManyRequestsError("", 1, "user"), 1, 'POST'), 1000);
+                });
+            });
+        });
+    }
+}
+
+RetryPolicyTests.run();
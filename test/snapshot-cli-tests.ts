@@ -0,0 +1,90 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as url from 'url';
+import {SnapshotCli} from "../snapshot-cli";
+import {InvalidKeyError} from "../api-key";
+import {FakeTransport} from "./fake-transport";
+
+export class SnapshotCliTests {
+
+    private static value = "RGAPI-01234567-89ab-cdef-0123-456789abcdef";
+
+    public static run() {
+
+        describe('SnapshotCli', function () {
+
+            describe('parse', () => {
+                it("should read the directory, the version, the locale and the region", () => {
+                    chai.assert.deepEqual(SnapshotCli.parse(["--version", "6.6.1", "static-data", "--locale", "fr_FR", "--region", "na"]), {
+                        directory: "static-data",
+                        region: "na",
+                        options: {version: "6.6.1", locale: "fr_FR"}
+                    });
+                    chai.assert.deepEqual(SnapshotCli.parse(["static-data"]), {directory: "static-data", region: "euw", options: {}});
+                });
+
+                it("should refuse invalid arguments with the usage", () => {
+                    chai.assert.throws(() => SnapshotCli.parse([]), /Missing the directory[\s\S]*Usage/);
+                    chai.assert.throws(() => SnapshotCli.parse(["static-data", "--version"]), /Missing the value of --version/);
+                    chai.assert.throws(() => SnapshotCli.parse(["static-data", "--season", "2016"]), /Unknown option --season/);
+                    chai.assert.throws(() => SnapshotCli.parse(["static-data", "other"]), /Unexpected argument other/);
+                });
+            });
+
+            describe('run', () => {
+
+                var directory = path.join(os.tmpdir(), `league-typenode-cli-${process.pid}`);
+                var variable:string;
+
+                before(() => {
+                    variable = process.env[SnapshotCli.KEY_VARIABLE];
+                });
+
+                after(() => {
+                    if (variable === undefined) {
+                        delete process.env[SnapshotCli.KEY_VARIABLE];
+                    } else {
+                        process.env[SnapshotCli.KEY_VARIABLE] = variable;
+                    }
+                    if (fs.existsSync(directory)) {
+                        fs.readdirSync(directory).forEach((fileName) => fs.unlinkSync(path.join(directory, fileName)));
+                        fs.rmdirSync(directory);
+                    }
+                });
+
+                it("should download the snapshot asked for with the key of the environment", () => {
+                    process.env[SnapshotCli.KEY_VARIABLE] = SnapshotCliTests.value;
+                    var transport = new FakeTransport((request) => {
+                        var resource = url.parse(request.path).pathname.split("/").pop();
+                        return FakeTransport.ok(resource == "versions" ? ["6.7.1", "6.6.1"] : resource == "realm" ? {l: "en_US"} : {data: {}});
+                    });
+                    return SnapshotCli.run([directory, "--version", "6.6.1", "--locale", "fr_FR"], {transport: transport}).then((manifest) => {
+                        chai.assert.equal(manifest.version, "6.6.1");
+                        chai.assert.equal(manifest.locale, "fr_FR");
+                        chai.assert.include(fs.readdirSync(directory), "manifest.json");
+                        chai.assert.equal(transport.requests[0].headers['X-Riot-Token'], SnapshotCliTests.value);
+                    });
+                });
+
+                it("should fail without a key in the environment", () => {
+                    delete process.env[SnapshotCli.KEY_VARIABLE];
+                    return SnapshotCli.run([directory], {transport: new FakeTransport(null)}).then(() => {
+                        chai.assert.fail("resolved", "rejected");
+                    }, (error) => {
+                        chai.assert.instanceOf(error, InvalidKeyError);
+                    });
+                });
+            });
+        });
+    }
+}
+
+SnapshotCliTests.run();
@@ -0,0 +1,122 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as url from 'url';
+import {StaticDataSnapshot, SnapshotManifest} from "../static-data-snapshot";
+import {NotFoundError, TransportError} from "../errors";
+import {LeagueTypenode} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class StaticDataSnapshotTests {
+
+    private static staticData:{[resource:string]:any} = {
+        "versions": ["6.7.1", "6.6.1"],
+        "realm": {l: "en_US", v: "6.7.1", dd: "6.7.1", cdn: "http://ddragon.leagueoflegends.com/cdn"},
+        "languages": ["en_US", "fr_FR"],
+        "language-strings": {type: "language", version: "6.6.1", data: {"Armor": "Armor"}},
+        "map": {type: "map", version: "6.6.1", data: {"11": {mapId: 11, mapName: "Summoner's Rift"}}},
+        "champion": {type: "champion", version: "6.6.1", data: {"Annie": {id: 1, key: "Annie", name: "Annie"}, "Olaf": {id: 2, key: "Olaf", name: "Olaf"}}},
+        "item": {type: "item", version: "6.6.1", data: {"3089": {id: 3089, name: "Rabadon's Deathcap"}}},
+        "mastery": {type: "mastery", version: "6.6.1", data: {"6114": {id: 6114, name: "Sorcery"}}},
+        "rune": {type: "rune", version: "6.6.1", data: {"5273": {id: 5273, name: "Greater Mark of Magic Penetration"}}},
+        "summoner-spell": {type: "summoner", version: "6.6.1", data: {"SummonerFlash": {id: 4, key: "SummonerFlash", name: "Flash"}}}
+    };
+
+    public static run() {
+
+        describe('StaticDataSnapshot', function () {
+
+            var directory = path.join(os.tmpdir(), `league-typenode-snapshot-${process.pid}`);
+            var transport = new FakeTransport((request) => {
+                return FakeTransport.ok(StaticDataSnapshotTests.staticData[url.parse(request.path).pathname.split("/").pop()]);
+            });
+            var manifest:SnapshotManifest;
+
+            before(() => {
+                return StaticDataSnapshot.download(transport.client(), "euw", directory, {version: "6.6.1"}).then((result) => {
+                    manifest = result;
+                });
+            });
+
+            after(() => {
+                fs.readdirSync(directory).forEach((fileName) => fs.unlinkSync(path.join(directory, fileName)));
+                fs.rmdirSync(directory);
+            });
+
+            describe('download', () => {
+                it("should write every static data resource and the manifest", () => {
+                    chai.assert.deepEqual(fs.readdirSync(directory).sort(), ["champion.json", "item.json", "language-strings.json",
+                        "languages.json", "manifest.json", "map.json", "mastery.json", "realm.json", "rune.json",
+                        "summoner-spell.json", "versions.json"]);
+                    chai.assert.equal(manifest.region, "euw");
+                    chai.assert.equal(manifest.version, "6.6.1");
+                    chai.assert.equal(manifest.locale, "en_US");
+                    chai.assert.deepEqual(JSON.parse(fs.readFileSync(path.join(directory, "manifest.json"), "utf8")), manifest);
+                });
+
+                it("should retrieve every additional data of the version and locale", () => {
+                    var champions = transport.requests.filter((request) => url.parse(request.path).pathname.split("/").pop() == "champion")[0];
+                    chai.assert.deepEqual(url.parse(champions.path, true).query, {locale: "en_US", version: "6.6.1", champData: "all"});
+                });
+            });
+
+            describe('offline', () => {
+                it("should answer the static data operations from the snapshot", () => {
+                    var tn = LeagueTypenode.offline(directory);
+                    return Promise.all<any>([
+                        tn.getChampions("euw", {version: "6.6.1", champData: "info"}),
+                        tn.getChampions("euw", {dataById: true}),
+                        tn.getChampionById("euw", 2),
+                        tn.getItemById("euw", 3089),
+                        tn.getSummonerSpellById("euw", 4),
+                        tn.getVersions("euw"),
+                        tn.getRealm("euw"),
+                        tn.getLanguageStrings("euw")
+                    ]).then((results) => {
+                        chai.assert.deepEqual(Object.keys(results[0].data), ["Annie", "Olaf"]);
+                        chai.assert.deepEqual(Object.keys(results[1].data), ["1", "2"]);
+                        chai.assert.equal(results[2].name, "Olaf");
+                        chai.assert.equal(results[3].name, "Rabadon's Deathcap");
+                        chai.assert.equal(results[4].name, "Flash");
+                        chai.assert.deepEqual(results[5], ["6.7.1", "6.6.1"]);
+                        chai.assert.equal(results[6].l, "en_US");
+                        chai.assert.equal(results[7].data["Armor"], "Armor");
+                    });
+                });
+
+                it("should answer the other versions, locales and ids with a NotFoundError", () => {
+                    var tn = LeagueTypenode.offline(directory);
+                    return Promise.all([
+                        tn.getChampions("euw", {version: "6.7.1"}).catch((error) => error),
+                        tn.getItems("euw", {locale: "fr_FR"}).catch((error) => error),
+                        tn.getRuneById("euw", 1).catch((error) => error)
+                    ]).then((errors) => {
+                        errors.forEach((error) => chai.assert.instanceOf(error, NotFoundError));
+                    });
+                });
+
+                it("should fail the operations outside of the static data", () => {
+                    return LeagueTypenode.offline(directory).getSummonerByIds("euw", "20717177").then(() => {
+                        chai.assert.fail("resolved", "rejected");
+                    }, (error) => {
+                        chai.assert.instanceOf(error, TransportError);
+                        chai.assert.include(error.message, "Offline");
+                    });
+                });
+
+                it("should refuse a directory without a snapshot", () => {
+                    chai.assert.throws(() => LeagueTypenode.offline(path.join(directory, "missing")), /No static data snapshot/);
+                });
+            });
+        });
+    }
+}
+
+StaticDataSnapshotTests.run();
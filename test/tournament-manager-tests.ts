@@ -0,0 +1,182 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {TournamentManager, FileTournamentStore, CodeState} from "../tournament-manager";
+import {MockServer, Fixture} from "../mock-server";
+import {LeagueTypenode, ApiKey} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class TournamentManagerTests {
+
+    private static codes = ["EUW0001", "EUW0002", "EUW0003"];
+    private static parameters = {mapType: "SUMMONERS_RIFT", pickType: "TOURNAMENT_DRAFT", spectatorType: "ALL", teamSize: 5};
+
+    public static run() {
+
+        describe('TournamentManager', function () {
+
+            this.slow(200);
+
+            describe('applyEvents', () => {
+                it("should follow the players and the progress of the game", () => {
+                    var state:CodeState = {code: "EUW0001", status: "created", lobby: [], lastEvent: null, matchIds: []};
+                    state = TournamentManager.applyEvents(state, [
+                        {eventType: "PlayerJoinedGameEvent", summonerId: "2", timestamp: "1002"},
+                        {eventType: "PracticeGameCreatedEvent", summonerId: "1", timestamp: "1000"},
+                        {eventType: "PlayerJoinedGameEvent", summonerId: "1", timestamp: "1001"},
+                        {eventType: "PlayerJoinedGameEvent", summonerId: "3", timestamp: "1003"},
+                        {eventType: "PlayerQuitGameEvent", summonerId: "3", timestamp: "1004"}
+                    ]);
+                    chai.assert.equal(state.status, "lobby");
+                    chai.assert.deepEqual(state.lobby, ["1", "2"]);
+                    chai.assert.equal(state.lastEvent, 1004);
+
+                    state = TournamentManager.applyEvents(state, [
+                        {eventType: "ChampSelectStartedEvent", summonerId: "0", timestamp: "1010"},
+                        {eventType: "GameAllocationStartedEvent", summonerId: "0", timestamp: "1020"}
+                    ]);
+                    chai.assert.equal(state.status, "inGame");
+                });
+            });
+
+            describe('with a stand-in server', () => {
+
+                var server:MockServer;
+                var tn:LeagueTypenode;
+                var fileName = path.join(os.tmpdir(), `league-typenode-tournament-${process.pid}.json`);
+                var manager:TournamentManager;
+
+                before((done) => {
+                    server = new MockServer(path.join(os.tmpdir(), `league-typenode-tournament-${process.pid}`));
+                    TournamentManagerTests.fixtures().forEach((fixture) => server.add(fixture));
+                    tn = new LeagueTypenode(new ApiKey(FakeTransport.KEY, true), {transport: server.transport()});
+                    manager = new TournamentManager(tn, {
+                        region: "euw",
+                        callbackUrl: "http://example.com/callback",
+                        name: "Weekly cup",
+                        store: new FileTournamentStore(fileName)
+                    });
+                    server.listen(0, done);
+                });
+
+                after((done) => {
+                    if (fs.existsSync(fileName)) {
+                        fs.unlinkSync(fileName);
+                    }
+                    server.close(done);
+                });
+
+                it("should register the provider and the tournament", () => {
+                    return manager.setup().then((state) => {
+                        chai.assert.equal(state.providerId, 17, "provider's id");
+                        chai.assert.equal(state.tournamentId, 2017, "tournament's id");
+                    });
+                });
+
+                it("should create one code per game of a bracket", () => {
+                    return manager.createBracketCodes(4, TournamentManagerTests.parameters).then((states) => {
+                        chai.assert.deepEqual(states.map((state) => [state.code, state.round, state.match]),
+                            [["EUW0001", 1, 1], ["EUW0002", 1, 2], ["EUW0003", 2, 1]]);
+                    });
+                });
+
+                it("should follow the state of a code from its lobby events", () => {
+                    return manager.refreshCode("EUW0001").then((state) => {
+                        chai.assert.equal(state.status, "championSelect");
+                        chai.assert.deepEqual(state.lobby, ["20717177", "25517257"]);
+                    });
+                });
+
+                it("should fetch the games of a code once", () => {
+                    return manager.fetchFinishedGames("EUW0001", false).then((matches) => {
+                        chai.assert.deepEqual(matches.map((match) => match.matchId), [2586444720]);
+                        chai.assert.equal(manager.code("EUW0001").status, "finished");
+                        return manager.fetchFinishedGames("EUW0001", false);
+                    }).then((matches) => {
+                        chai.assert.lengthOf(matches, 0);
+                    });
+                });
+
+                it("should find no game for a code that wasn't played", () => {
+                    return manager.fetchFinishedGames("EUW0002", false).then((matches) => {
+                        chai.assert.lengthOf(matches, 0);
+                        chai.assert.equal(manager.code("EUW0002").status, "created");
+                    });
+                });
+
+                it("should keep the games fetched while the code is refreshed", () => {
+                    return Promise.all([
+                        manager.refreshCode("EUW0003"),
+                        manager.fetchFinishedGames("EUW0003", false)
+                    ]).then((results) => {
+                        chai.assert.lengthOf(results[1], 1);
+                        chai.assert.equal(manager.code("EUW0003").status, "finished");
+                        chai.assert.deepEqual(manager.code("EUW0003").matchIds, [2586444721]);
+                        return manager.fetchFinishedGames("EUW0003", false);
+                    }).then((matches) => {
+                        chai.assert.lengthOf(matches, 0);
+                        var saved = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+                        chai.assert.equal(saved.codes["EUW0003"].status, "finished");
+                        chai.assert.deepEqual(saved.codes["EUW0003"].matchIds, [2586444721]);
+                    });
+                });
+
+                it("should resume from its store without registering again", () => {
+                    var offline = new FakeTransport((request) => new Error(`Unexpected request ${request.path}`)).client({}, new ApiKey(FakeTransport.KEY, true));
+                    var resumed = new TournamentManager(offline, {region: "euw", callbackUrl: "http://example.com/callback", store: new FileTournamentStore(fileName)});
+                    return resumed.setup().then((state) => {
+                        chai.assert.equal(state.tournamentId, 2017, "tournament's id");
+                        chai.assert.lengthOf(resumed.codes(), 3);
+                        chai.assert.deepEqual(resumed.code("EUW0001").matchIds, [2586444720]);
+                    });
+                });
+            });
+        });
+    }
+
+    private static fixtures():Fixture[] {
+        var json = {'content-type': 'application/json'};
+        var fixture = (method:string, host:string, path:string, body:any):Fixture => {
+            return {request: {method: method, host: host, path: path}, response: {statusCode: 200, headers: json, json: body}};
+        };
+        var provider = fixture('POST', 'global.api.pvp.net', '/tournament/public/v1/provider', 17);
+        provider.request.json = {region: "EUW", url: "http://example.com/callback"};
+        var tournament = fixture('POST', 'global.api.pvp.net', '/tournament/public/v1/tournament', 2017);
+        tournament.request.json = {name: "Weekly cup", providerId: 17};
+        return [provider, tournament,
+            fixture('POST', 'global.api.pvp.net', '/tournament/public/v1/code?tournamentId=2017&count=3', TournamentManagerTests.codes),
+            fixture('GET', 'global.api.pvp.net', '/tournament/public/v1/lobby/events/by-code/EUW0001', {
+                eventList: [
+                    {eventType: "PracticeGameCreatedEvent", summonerId: "20717177", timestamp: "1460840632000"},
+                    {eventType: "PlayerJoinedGameEvent", summonerId: "20717177", timestamp: "1460840633000"},
+                    {eventType: "PlayerJoinedGameEvent", summonerId: "25517257", timestamp: "1460840661000"},
+                    {eventType: "ChampSelectStartedEvent", summonerId: "0", timestamp: "1460840702000"}
+                ]
+            }),
+            fixture('GET', 'global.api.pvp.net', '/tournament/public/v1/lobby/events/by-code/EUW0003', {
+                eventList: [
+                    {eventType: "PracticeGameCreatedEvent", summonerId: "20717177", timestamp: "1460844232000"}
+                ]
+            }),
+            fixture('GET', 'euw.api.pvp.net', '/api/lol/euw/v2.2/match/by-tournament/EUW0001/ids', [2586444720]),
+            fixture('GET', 'euw.api.pvp.net', '/api/lol/euw/v2.2/match/by-tournament/EUW0003/ids', [2586444721]),
+            fixture('GET', 'euw.api.pvp.net', '/api/lol/euw/v2.2/match/for-tournament/2586444721?tournamentCode=EUW0003&includeTimeline=false', {
+                matchId: 2586444721,
+                region: "EUW"
+            }),
+            fixture('GET', 'euw.api.pvp.net', '/api/lol/euw/v2.2/match/for-tournament/2586444720?tournamentCode=EUW0001&includeTimeline=false', {
+                matchId: 2586444720,
+                region: "EUW"
+            })
+        ];
+    }
+}
+
+TournamentManagerTests.run();
@@ -0,0 +1,133 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as chai from 'chai';
+import * as http from 'http';
+import {NodeTransport} from "../transport";
+import {LeagueTypenode} from "../index";
+import {FakeTransport} from "./fake-transport";
+
+export class TransportTests {
+
+    public static run() {
+
+        describe('NodeTransport', function () {
+
+            this.slow(200);
+
+            var server:http.Server;
+            var port:number;
+
+            before((done) => {
+                server = http.createServer((req, res) => {
+                    var body = '';
+                    req.on('data', (chunk) => {
+                        body += chunk;
+                    });
+                    req.on('end', () => {
+                        res.writeHead(201, {'Content-Type': 'application/json', 'X-Method': req.method});
+                        res.end(JSON.stringify({path: req.url, body: body}));
+                    });
+                });
+                server.listen(0, '127.0.0.1', () => {
+                    port = server.address().port;
+                    done();
+                });
+            });
+
+            after((done) => {
+                server.close(done);
+            });
+
+            it("should send the request and give the status, headers and body of the response", (done) => {
+                new NodeTransport().request({
+                    method: 'POST',
+                    protocol: 'http:',
+                    hostname: '127.0.0.1',
+                    port: port,
+                    path: '/foo?bar=1',
+                    headers: {'Content-Type': 'application/json; charset=UTF-8'},
+                    body: '{"name":"é"}'
+                }, (error, response) => {
+                    chai.assert.isNull(error);
+                    chai.assert.equal(response.statusCode, 201, "status code");
+                    chai.assert.equal(response.headers['x-method'], 'POST', "header");
+                    chai.assert.deepEqual(JSON.parse(response.body), {path: '/foo?bar=1', body: '{"name":"é"}'});
+                    done();
+                });
+            });
+
+            it("should give network errors to the callback", (done) => {
+                new NodeTransport().request({
+                    method: 'GET',
+                    protocol: 'http:',
+                    hostname: '127.0.0.1',
+                    port: 1,
+                    path: '/',
+                    headers: {},
+                    body: ''
+                }, (error, response) => {
+                    chai.assert.isNotNull(error);
+                    chai.assert.isNull(response);
+                    done();
+                });
+            });
+        });
+
+        describe('LeagueTypenode with a transport', function () {
+
+            it("should send its requests through the given transport", (done) => {
+                var transport = new FakeTransport({statusCode: 200, headers: {}, body: '["6.6.1"]'});
+                var tn = new LeagueTypenode(FakeTransport.KEY, {transport: transport});
+                tn.getVersions("euw", (error, versions) => {
+                    chai.assert.isNull(error);
+                    chai.assert.deepEqual(versions, ["6.6.1"]);
+                    chai.assert.equal(transport.requests.length, 1, "number of requests");
+                    chai.assert.equal(transport.requests[0].method, 'GET');
+                    chai.assert.equal(transport.requests[0].protocol, 'https:');
+                    chai.assert.equal(transport.requests[0].hostname, 'global.api.pvp.net');
+                    chai.assert.equal(transport.requests[0].path, '/api/lol/static-data/euw/v1.2/versions');
+                    chai.assert.equal(transport.requests[0].headers['X-Riot-Token'], FakeTransport.KEY);
+                    done();
+                });
+            });
+
+            it("should send the key in the query string when asked to", (done) => {
+                var transport = new FakeTransport({statusCode: 200, headers: {}, body: '{}'});
+                var tn = new LeagueTypenode(FakeTransport.KEY, {transport: transport, keyLocation: "query"});
+                tn.getSummonerByIds("euw", "1234", (error) => {
+                    chai.assert.isNull(error);
+                    chai.assert.equal(transport.requests[0].path, `/api/lol/euw/v1.4/summoner/1234?api_key=${FakeTransport.KEY}`);
+                    chai.assert.isUndefined(transport.requests[0].headers['X-Riot-Token']);
+                    done();
+                });
+            });
+
+            it("should send the request again according to the retry policy", (done) => {
+                var transport = new FakeTransport({statusCode: 503, headers: {}, body: '{"status":{"status_code":503,"message":"Service unavailable"}}'});
+                var tn = new LeagueTypenode(FakeTransport.KEY, {transport: transport, retry: {maxAttempts: 3, backoff: () => 1}});
+                tn.getVersions("euw", (error) => {
+                    chai.assert.equal(error.name, "ServiceUnavailableError");
+                    chai.assert.equal(transport.requests.length, 3, "number of requests");
+                    done();
+                });
+            });
+
+            it("should answer from the cache without sending a request", (done) => {
+                var transport = new FakeTransport({statusCode: 200, headers: {}, body: '["6.6.1"]'});
+                var tn = new LeagueTypenode(FakeTransport.KEY, {transport: transport, cache: {}});
+                tn.getVersions("euw").then(() => {
+                    return tn.getVersions("euw");
+                }).then((versions) => {
+                    chai.assert.deepEqual(versions, ["6.6.1"]);
+                    chai.assert.equal(transport.requests.length, 1, "number of requests");
+                }).then(() => done(), done);
+            });
+        });
+    }
+}
+
+TransportTests.run();
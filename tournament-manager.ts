@@ -0,0 +1,502 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as fs from 'fs';
+import * as api from 'league-typedef';
+import {LeagueTypenode, ApiError} from './index';
+import {Region, Regions} from './regions';
+import {Promises} from './promises';
+
+/**
+ * Progress of the game of a tournament code, as told by its lobby events
+ */
+export type CodeStatus = "created" | "lobby" | "championSelect" | "inGame" | "finished";
+
+/**
+ * What is known about a tournament code
+ */
+export interface CodeState {
+    code:string;
+    status:CodeStatus;
+    /**
+     * Ids of the summoners in the lobby
+     */
+    lobby:string[];
+    /**
+     * Timestamp of the last lobby event, in milliseconds
+     */
+    lastEvent:number;
+    /**
+     * Ids of the games played with the code
+     */
+    matchIds:number[];
+    /**
+     * Round of the bracket the code was created for, starting at 1
+     */
+    round?:number;
+    /**
+     * Number of the game in its round, starting at 1
+     */
+    match?:number;
+}
+
+/**
+ * Everything a TournamentManager persists
+ */
+export interface TournamentState {
+    providerId:number;
+    tournamentId:number;
+    codes:{[code:string]:CodeState};
+}
+
+/**
+ * Storage of the state of a tournament.
+ *
+ * Implement it to keep the state somewhere else than in memory or in a file, such as in a database.
+ */
+export interface TournamentStore {
+    /**
+     * Loads the state.
+     *
+     * @param callback Called with the state, or null if none was saved yet
+     */
+    load(callback:(error:Error, state:TournamentState)=>void):void;
+
+    /**
+     * Saves the state.
+     *
+     * @param state State to save
+     * @param callback Called once the state is saved
+     */
+    save(state:TournamentState, callback:(error:Error)=>void):void;
+}
+
+/**
+ * Store keeping the state in memory
+ */
+export class MemoryTournamentStore implements TournamentStore {
+    private json:string = null;
+
+    /**
+     * @inheritdoc
+     */
+    public load(callback:(error:Error, state:TournamentState)=>void) {
+        callback(null, this.json ? JSON.parse(this.json) : null);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public save(state:TournamentState, callback:(error:Error)=>void) {
+        this.json = JSON.stringify(state);
+        callback(null);
+    }
+}
+
+/**
+ * Store keeping the state in a JSON file
+ */
+export class FileTournamentStore implements TournamentStore {
+
+    /**
+     * Creates a store for a file.
+     *
+     * @param fileName Name of the file. It is created on the first save.
+     */
+    constructor(public fileName:string) {
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public load(callback:(error:Error, state:TournamentState)=>void) {
+        fs.readFile(this.fileName, 'utf8', (error:any, content:string) => {
+            if (error && error.code === 'ENOENT') {
+                callback(null, null);
+            } else if (error) {
+                callback(error, null);
+            } else {
+                try {
+                    var state = JSON.parse(content);
+                } catch (e) {
+                    callback(e, null);
+                    return;
+                }
+                callback(null, state);
+            }
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public save(state:TournamentState, callback:(error:Error)=>void) {
+        fs.writeFile(this.fileName, JSON.stringify(state, null, 2), {encoding: 'utf8'}, callback);
+    }
+}
+
+/**
+ * Options of a TournamentManager
+ */
+export interface TournamentManagerOptions {
+    /**
+     * Region of the tournament
+     */
+    region:Region;
+    /**
+     * URL the game results are sent to, given when registering the provider
+     */
+    callbackUrl:string;
+    /**
+     * Name of the tournament
+     */
+    name?:string;
+    /**
+     * Where the state of the tournament is kept. Defaults to a MemoryTournamentStore.
+     */
+    store?:TournamentStore;
+}
+
+/**
+ * Runs a tournament : registers its provider and itself once, creates its codes, follows their games and gets their
+ * results.
+ */
+export class TournamentManager {
+    /**
+     * Maximum number of codes created by a single request
+     */
+    public static MAX_CODES_PER_REQUEST = 1000;
+
+    /**
+     * Status reached with each lobby event, by type of event
+     */
+    private static eventStatus:{[eventType:string]:CodeStatus} = {
+        "PracticeGameCreatedEvent": "lobby",
+        "ChampSelectStartedEvent": "championSelect",
+        "GameAllocationStartedEvent": "inGame",
+        "GameAllocatedToLsmEvent": "inGame"
+    };
+
+    public region:Region;
+    public store:TournamentStore;
+    private state:TournamentState = null;
+
+    /**
+     * Creates a TournamentManager.
+     *
+     * @param tn Instance used to call the API. It needs a tournaments key.
+     * @param options Options of the manager
+     */
+    constructor(private tn:LeagueTypenode, private options:TournamentManagerOptions) {
+        this.region = Regions.parseRegion(options.region);
+        this.store = options.store || new MemoryTournamentStore();
+    }
+
+    /**
+     * Computes the state of a code from its lobby events.
+     *
+     * @param state Current state of the code
+     * @param events Lobby events of the code
+     * @returns {CodeState} New state of the code
+     */
+    public static applyEvents(state:CodeState, events:api.tournamentProvider.LobbyEventDTO[]):CodeState {
+        var result:CodeState = {
+            code: state.code,
+            status: state.status,
+            lobby: [],
+            lastEvent: state.lastEvent,
+            matchIds: state.matchIds.slice()
+        };
+        if (state.round != null) {
+            result.round = state.round;
+            result.match = state.match;
+        }
+        events.slice().sort((a, b) => Number(a.timestamp) - Number(b.timestamp)).forEach((event) => {
+            if (event.eventType == "PlayerJoinedGameEvent" && result.lobby.indexOf(event.summonerId) == -1) {
+                result.lobby.push(event.summonerId);
+            } else if (event.eventType == "PlayerQuitGameEvent") {
+                result.lobby = result.lobby.filter((summonerId) => summonerId != event.summonerId);
+            }
+            if (TournamentManager.eventStatus.hasOwnProperty(event.eventType) && result.status != "finished") {
+                result.status = TournamentManager.eventStatus[event.eventType];
+            }
+            result.lastEvent = Math.max(result.lastEvent || 0, Number(event.timestamp));
+        });
+        return result;
+    }
+
+    /**
+     * Loads the state of the tournament, and registers its provider and itself if they aren't yet.
+     *
+     * @param callback Called with the state of the tournament
+     */
+    public setup(callback?:(error:Error, state:TournamentState)=>void):Promise<TournamentState> {
+        if (!callback) {
+            return Promises.fromCallback<TournamentState>((callback) => this.setup(callback));
+        }
+        this.store.load((error:Error, state:TournamentState) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            this.state = state || {providerId: null, tournamentId: null, codes: {}};
+            this.registerProvider((error:Error) => {
+                if (error) {
+                    callback(error, null);
+                    return;
+                }
+                this.registerTournament((error:Error) => {
+                    callback(error, error ? null : this.state);
+                });
+            });
+        });
+    }
+
+    /**
+     * Gets the state of a code.
+     *
+     * @param code Tournament code
+     * @returns {CodeState} State of the code, or null if it isn't a code of this tournament
+     */
+    public code(code:string):CodeState {
+        this.needsSetup();
+        return this.state.codes.hasOwnProperty(code) ? this.state.codes[code] : null;
+    }
+
+    /**
+     * Gets the state of every code of the tournament.
+     *
+     * @returns {CodeState[]}
+     */
+    public codes():CodeState[] {
+        this.needsSetup();
+        return Object.keys(this.state.codes).map((code) => this.state.codes[code]);
+    }
+
+    /**
+     * Creates codes for the tournament, in as many requests as needed.
+     *
+     * @param count Number of codes to create
+     * @param parameters Parameters of the games played with the codes
+     * @param callback Called with the new codes
+     */
+    public createCodes(count:number, parameters:api.tournamentProvider.TournamentCodeParameters, callback?:(error:Error, codes:string[])=>void):Promise<string[]> {
+        if (!callback) {
+            return Promises.fromCallback<string[]>((callback) => this.createCodes(count, parameters, callback));
+        }
+        this.needsSetup();
+        var codes:string[] = [];
+        var next = () => {
+            var remaining = count - codes.length;
+            if (remaining <= 0) {
+                this.saveState((error:Error) => {
+                    callback(error, codes);
+                });
+                return;
+            }
+            var size = Math.min(remaining, TournamentManager.MAX_CODES_PER_REQUEST);
+            this.tn.createTournamentCodesById(this.state.tournamentId, size, parameters, (error:Error, created:string[]) => {
+                if (error) {
+                    // Keep the codes created so far
+                    this.saveState(() => {
+                        callback(error, codes);
+                    });
+                    return;
+                }
+                created.forEach((code) => {
+                    this.state.codes[code] = {code: code, status: "created", lobby: [], lastEvent: null, matchIds: []};
+                    codes.push(code);
+                });
+                next();
+            });
+        };
+        next();
+    }
+
+    /**
+     * Creates the codes of a single elimination bracket : one code per game, round after round.
+     *
+     * @param teams Number of teams in the bracket
+     * @param parameters Parameters of the games played with the codes
+     * @param callback Called with the states of the new codes, by round then by game
+     */
+    public createBracketCodes(teams:number, parameters:api.tournamentProvider.TournamentCodeParameters, callback?:(error:Error, codes:CodeState[])=>void):Promise<CodeState[]> {
+        if (!callback) {
+            return Promises.fromCallback<CodeState[]>((callback) => this.createBracketCodes(teams, parameters, callback));
+        }
+        var games:{round:number, match:number}[] = [];
+        var remaining = teams;
+        for (var round = 1; remaining > 1; round++) {
+            var count = Math.floor(remaining / 2);
+            for (var match = 1; match <= count; match++) {
+                games.push({round: round, match: match});
+            }
+            remaining -= count;
+        }
+        this.createCodes(games.length, parameters, (error:Error, codes:string[]) => {
+            var states = codes.map((code, i) => {
+                this.state.codes[code].round = games[i].round;
+                this.state.codes[code].match = games[i].match;
+                return this.state.codes[code];
+            });
+            this.saveState((saveError:Error) => {
+                callback(error || saveError, states);
+            });
+        });
+    }
+
+    /**
+     * Updates the state of a code from its lobby events.
+     *
+     * @param code Tournament code
+     * @param callback Called with the new state of the code
+     */
+    public refreshCode(code:string, callback?:(error:Error, state:CodeState)=>void):Promise<CodeState> {
+        if (!callback) {
+            return Promises.fromCallback<CodeState>((callback) => this.refreshCode(code, callback));
+        }
+        var state = this.needsCode(code);
+        this.tn.getLobbyEventsByTournamentCode(code, (error:Error, events:api.tournamentProvider.LobbyEventDTOWrapper) => {
+            if (error) {
+                callback(error, null);
+                return;
+            }
+            // Update the stored state in place : fetchFinishedGames may be changing the same code meanwhile
+            var updated = TournamentManager.applyEvents(state, events.eventList || []);
+            Object.keys(updated).forEach((key) => {
+                (<any>state)[key] = (<any>updated)[key];
+            });
+            this.saveState((error:Error) => {
+                callback(error, state);
+            });
+        });
+    }
+
+    /**
+     * Updates the state of every code whose game isn't finished.
+     *
+     * @param callback Called with the states of the codes
+     */
+    public refresh(callback?:(error:Error, states:CodeState[])=>void):Promise<CodeState[]> {
+        if (!callback) {
+            return Promises.fromCallback<CodeState[]>((callback) => this.refresh(callback));
+        }
+        var pending = this.codes().filter((state) => state.status != "finished");
+        var remaining = pending.length;
+        var firstError:Error = null;
+        if (remaining == 0) {
+            callback(null, this.codes());
+            return;
+        }
+        pending.forEach((state) => {
+            this.refreshCode(state.code, (error:Error) => {
+                firstError = firstError || error;
+                if (--remaining == 0) {
+                    callback(firstError, this.codes());
+                }
+            });
+        });
+    }
+
+    /**
+     * Gets the games played with a code that weren't fetched yet, and marks the code as finished if there are some.
+     *
+     * @param code Tournament code
+     * @param includeTimeline Whether the timelines of the games are included
+     * @param callback Called with the new games
+     */
+    public fetchFinishedGames(code:string, includeTimeline:boolean, callback?:(error:Error, matches:api.match.MatchDetail[])=>void):Promise<api.match.MatchDetail[]> {
+        if (!callback) {
+            return Promises.fromCallback<api.match.MatchDetail[]>((callback) => this.fetchFinishedGames(code, includeTimeline, callback));
+        }
+        var state = this.needsCode(code);
+        this.tn.getMatchIdsByTournamentCode(this.region, code, (error:Error, matchIds:number[]) => {
+            if (error && (<ApiError>error).code == 404) {
+                callback(null, []);
+                return;
+            } else if (error) {
+                callback(error, null);
+                return;
+            }
+            var newIds = matchIds.filter((matchId) => state.matchIds.indexOf(matchId) == -1);
+            var matches:api.match.MatchDetail[] = [];
+            var next = () => {
+                if (matches.length == newIds.length) {
+                    this.saveState((error:Error) => {
+                        callback(error, matches);
+                    });
+                    return;
+                }
+                var matchId = newIds[matches.length];
+                this.tn.getMatchByIdAndTournamentCode(this.region, matchId, code, includeTimeline, (error:Error, match:api.match.MatchDetail) => {
+                    if (error) {
+                        callback(error, matches);
+                        return;
+                    }
+                    state.matchIds.push(matchId);
+                    state.status = "finished";
+                    matches.push(match);
+                    next();
+                });
+            };
+            next();
+        });
+    }
+
+    private registerProvider(callback:(error:Error)=>void) {
+        if (this.state.providerId != null) {
+            callback(null);
+            return;
+        }
+        this.tn.createTournamentProvider({
+            region: this.region.toUpperCase(),
+            url: this.options.callbackUrl
+        }, (error:Error, providerId:number) => {
+            if (error) {
+                callback(error);
+                return;
+            }
+            this.state.providerId = providerId;
+            this.saveState(callback);
+        });
+    }
+
+    private registerTournament(callback:(error:Error)=>void) {
+        if (this.state.tournamentId != null) {
+            callback(null);
+            return;
+        }
+        this.tn.createTournament({
+            name: this.options.name,
+            providerId: this.state.providerId
+        }, (error:Error, tournamentId:number) => {
+            if (error) {
+                callback(error);
+                return;
+            }
+            this.state.tournamentId = tournamentId;
+            this.saveState(callback);
+        });
+    }
+
+    private saveState(callback:(error:Error)=>void) {
+        this.store.save(this.state, callback);
+    }
+
+    private needsSetup() {
+        if (this.state == null) {
+            throw new Error("The tournament isn't set up. Use setup().");
+        }
+    }
+
+    private needsCode(code:string):CodeState {
+        var state = this.code(code);
+        if (state == null) {
+            throw new Error(`"${code}" is not a code of this tournament.`);
+        }
+        return state;
+    }
+}
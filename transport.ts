@@ -0,0 +1,129 @@
+/*	This file is part of league-typenode.
+
+ league-typenode - Simple TypeScript library for Riot Games' API
+ Copyright (C) 2016 Kewin Dousse (Protectator)
+ */
+
+import * as https from 'https';
+import * as http from 'http';
+import {CancellationToken} from './cancellation';
+
+/**
+ * A request sent through a Transport
+ */
+export interface TransportRequest {
+    method:string;
+    /**
+     * Either "http:" or "https:"
+     */
+    protocol:string;
+    hostname:string;
+    port?:number;
+    /**
+     * Path of the request, including its query string
+     */
+    path:string;
+    headers:{[name:string]:string};
+    body:string;
+    /**
+     * Cancelled when the request times out or its call is cancelled. The transport should abort the request then,
+     * its callback is ignored anyway.
+     */
+    cancellation?:CancellationToken;
+}
+
+/**
+ * A response received through a Transport
+ */
+export interface TransportResponse {
+    statusCode:number;
+    /**
+     * Headers of the response, with lowercase names
+     */
+    headers:{[name:string]:string};
+    body:string;
+}
+
+/**
+ * Sends the HTTP requests of a LeagueTypenode instance.
+ *
+ * Implement it to send the requests through something else than node's http and https modules, such as a fake
+ * server in tests.
+ */
+export interface Transport {
+    /**
+     * Sends a request.
+     *
+     * @param request Request to send
+     * @param callback Called with the response, or with an error if no response was received
+     */
+    request(request:TransportRequest, callback:(error:Error, response:TransportResponse)=>void):void;
+}
+
+/**
+ * Options of a NodeTransport
+ */
+export interface NodeTransportOptions {
+    /**
+     * Agent used for the https requests, to keep connections alive or go through a proxy
+     */
+    httpsAgent?:https.Agent;
+    /**
+     * Agent used for the http requests
+     */
+    httpAgent?:http.Agent;
+}
+
+/**
+ * Transport sending the requests with node's http and https modules
+ */
+export class NodeTransport implements Transport {
+
+    /**
+     * Creates a NodeTransport.
+     *
+     * @param options Options of the transport
+     */
+    constructor(private options:NodeTransportOptions = {}) {
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public request(request:TransportRequest, callback:(error:Error, response:TransportResponse)=>void) {
+        var useHttps = request.protocol != 'http:';
+        var headers:{[name:string]:any} = {};
+        for (var name in request.headers) {
+            headers[name] = request.headers[name];
+        }
+        headers['Content-Length'] = Buffer.byteLength(request.body || '');
+        var options:https.RequestOptions = {
+            hostname: request.hostname,
+            port: request.port,
+            path: request.path,
+            method: request.method,
+            headers: headers,
+            agent: <any>(useHttps ? this.options.httpsAgent : this.options.httpAgent)
+        };
+        var handler = (res:http.IncomingMessage) => {
+            var body = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk) => {
+                body += chunk;
+            });
+            res.on('end', () => {
+                callback(null, {statusCode: res.statusCode, headers: res.headers, body: body});
+            });
+        };
+        var req:http.ClientRequest = useHttps ? https.request(options, handler) : http.request(options, handler);
+        req.on('error', (e) => {
+            callback(e, null);
+        });
+        if (request.cancellation) {
+            var stopListening = request.cancellation.onCancel(() => req.abort());
+            req.on('close', stopListening);
+        }
+        req.write(request.body || '');
+        req.end();
+    }
+}